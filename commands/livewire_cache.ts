@@ -0,0 +1,22 @@
+import { BaseCommand } from '@adonisjs/core/ace'
+import { CommandOptions } from '@adonisjs/core/types/ace'
+
+export default class LivewireCache extends BaseCommand {
+  static commandName = 'livewire:cache'
+  static description = 'Discover Livewire components and cache the component manifest'
+
+  static options: CommandOptions = {
+    startApp: true,
+    allowUnknownFlags: false,
+    staysAlive: false,
+  }
+
+  async run() {
+    const { discovery } = await this.app.container.make('livewire')
+    const manifest = discovery.cache()
+
+    this.logger.success(
+      `Cached ${Object.keys(manifest).length} Livewire components in ${this.colors.grey(discovery.manifestPath)}`
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { BaseCommand } from '@adonisjs/core/ace'
+import { CommandOptions } from '@adonisjs/core/types/ace'
+
+export default class LivewireClear extends BaseCommand {
+  static commandName = 'livewire:clear'
+  static description = 'Remove the cached Livewire component manifest'
+
+  static options: CommandOptions = {
+    startApp: true,
+    allowUnknownFlags: false,
+    staysAlive: false,
+  }
+
+  async run() {
+    const { discovery } = await this.app.container.make('livewire')
+
+    if (!discovery.isCached()) {
+      this.logger.info('Livewire component manifest is not cached')
+      return
+    }
+
+    discovery.clear()
+    this.logger.success('Cleared the Livewire component manifest')
+  }
+}
@@ -1,7 +1,11 @@
 import { BaseCommand, args, flags } from '@adonisjs/core/ace'
 import { CommandOptions } from '@adonisjs/core/types/ace'
+import { ConfigLoader } from '@adonisjs/core/config'
 import { stubsRoot } from '../index.js'
 import stringHelpers from '@adonisjs/core/helpers/string'
+import { join } from 'node:path'
+import { ComponentDiscovery } from '../src/component_discovery.js'
+import { defaultConfig, type Config } from '../src/define_config.js'
 
 export default class MakeLivewire extends BaseCommand {
   static commandName = 'make:livewire'
@@ -24,6 +28,40 @@ export default class MakeLivewire extends BaseCommand {
     this.inline ? await this.generateInline() : await this.generate()
   }
 
+  /**
+   * The app is not started to generate files, so the config directory is
+   * loaded when the config was not processed
+   */
+  private async config(): Promise<Config> {
+    if (this.app.config) {
+      return this.app.config.get<Config>('livewire', defaultConfig)
+    }
+
+    const config = await new ConfigLoader(this.app.configPath()).load()
+    return config.livewire ?? defaultConfig
+  }
+
+  /**
+   * New components are generated inside the first configured roots that
+   * are not a `*` pattern
+   */
+  private async roots() {
+    const config = await this.config()
+    const discovery = new ComponentDiscovery(this.app, {
+      classes: config.class_namespace,
+      views: config.view_path,
+    })
+
+    const classRoot = discovery.classRoots.find((root) => !root.includes('*'))
+    const viewRoot = discovery.viewRoots.find((root) => !root.includes('*'))
+
+    return {
+      discovery,
+      classRoot: discovery.resolvePath(classRoot ?? 'app/livewire'),
+      viewRoot: discovery.resolvePath(viewRoot ?? 'resources/views/livewire'),
+    }
+  }
+
   private async generateInline() {
     const codemods = await this.createCodemods()
 
@@ -35,6 +73,7 @@ export default class MakeLivewire extends BaseCommand {
     codemods.makeUsingStub(stubsRoot, 'livewire-inline.stub', {
       className: stringHelpers.pascalCase(last),
       filename,
+      classRoot: (await this.roots()).classRoot,
     })
   }
 
@@ -46,15 +85,18 @@ export default class MakeLivewire extends BaseCommand {
     let last = parts.pop()!
     let filename = [...parts, stringHelpers.snakeCase(last)].join('/')
     let dashedFilename = [...parts, stringHelpers.dashCase(last)].join('/')
+    let { discovery, classRoot, viewRoot } = await this.roots()
 
     codemods.makeUsingStub(stubsRoot, 'livewire-component.stub', {
       className: stringHelpers.pascalCase(last),
       filename,
-      dashedFilename,
+      classRoot,
+      viewName: discovery.templateName(join(viewRoot, `${dashedFilename}.edge`)),
     })
 
     codemods.makeUsingStub(stubsRoot, 'livewire-template.stub', {
       filename: dashedFilename,
+      viewRoot,
     })
   }
 }
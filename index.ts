@@ -15,5 +15,7 @@ export { EventBus } from './src/event_bus.js'
 export { Synth } from './src/synthesizers/synth.js'
 export { ViewComponent } from './src/view_component.js'
 export { Form } from './src/form.js'
+export { TemporaryUploadedFile } from './src/features/support_file_uploads/temporary_uploaded_file.js'
 export { compose } from '@poppinss/utils'
 export { type HasValidate } from './src/features/support_validation/types.js'
+export { HmacSigner, type SnapshotSigner } from './src/checksum.js'
@@ -15,6 +15,16 @@ import { SupportScriptsAndAssets } from '../src/features/support_scripts_and_ass
 import { SupportValidation } from '../src/features/support_validation/support_validation.js'
 import { SupportAutoInjectedAssets } from '../src/features/support_auto_injected_assets/support_auto_injected_assets.js'
 import { SupportFormObjects } from '../src/features/support_form_objects/support_form_objects.js'
+import { SupportNestingComponents } from '../src/features/support_nesting_components/support_nesting_components.js'
+import { SupportReactiveProps } from '../src/features/support_reactive_props/support_reactive_props.js'
+import { SupportFileUploads } from '../src/features/support_file_uploads/support_file_uploads.js'
+import { SupportStreaming } from '../src/features/support_streaming/support_streaming.js'
+import { SupportFileDownloads } from '../src/features/support_file_downloads/support_file_downloads.js'
+import { SupportIslands } from '../src/features/support_islands/support_islands.js'
+import { SupportAuthorization } from '../src/features/support_authorization/support_authorization.js'
+import { SupportThrottling } from '../src/features/support_throttling/support_throttling.js'
+import { FileUploadController } from '../src/features/support_file_uploads/file_upload_controller.js'
+import { FileUploadConfiguration } from '../src/features/support_file_uploads/file_upload_configuration.js'
 import { Config, defaultConfig } from '../src/define_config.js'
 import type Livewire from '../src/livewire.js'
 import { EventBus } from '../src/event_bus.js'
@@ -22,8 +32,12 @@ import { ModelSynth } from '../src/synthesizers/model.js'
 import { ArraySynth } from '../src/synthesizers/array.js'
 import { DateSynth } from '../src/synthesizers/date.js'
 import { FormObjectSynth } from '../src/synthesizers/form_object.js'
+import { FileUploadSynth } from '../src/synthesizers/file_upload.js'
+import { EncryptedSynth } from '../src/synthesizers/encrypted.js'
 import debug from '../src/debug.js'
 import { Constructor } from '../src/types.js'
+import { PayloadGuard } from '../src/features/support_payload_limits/payload_guard.js'
+import { InvalidPayloadException } from '../src/features/support_payload_limits/invalid_payload_exception.js'
 
 const currentDirname = dirname(fileURLToPath(import.meta.url))
 
@@ -149,8 +163,10 @@ export default class LivewireProvider {
       })
     }
 
+    const payloadGuard = new PayloadGuard(config.limits)
+
     router.post('/livewire/update', async (ctx) => {
-      let components = ctx.request.input('components', [])
+      let components = payloadGuard.validate(ctx)
       debug('processing Livewire update request with %d components', components.length)
 
       let result: any = {
@@ -158,53 +174,78 @@ export default class LivewireProvider {
         assets: [],
       }
       let isRedirect = false
-      for (const component of components) {
-        let snapshot: any
-        try {
-          snapshot = JSON.parse(component.snapshot)
-        } catch (err: any) {
-          const raw =
-            typeof component.snapshot === 'string' ? component.snapshot : String(component.snapshot)
-          const pos = err.message?.match(/position (\d+)/)?.[1]
-          debug(
-            'Livewire update: JSON.parse failed on component snapshot. Error: %s. Snapshot length: %d. Around position %s: %s',
-            err.message,
-            raw.length,
-            pos,
-            pos ? raw.slice(Math.max(0, Number(pos) - 60), Number(pos) + 60) : raw.slice(0, 200)
+
+      // Once streaming started, the head is sent and the error can't be
+      // rendered, so the stream has to be ended before reporting it
+      try {
+        for (const component of components) {
+          let snapshot: any
+          try {
+            snapshot = JSON.parse(component.snapshot)
+          } catch (err: any) {
+            const raw =
+              typeof component.snapshot === 'string'
+                ? component.snapshot
+                : String(component.snapshot)
+            const pos = err.message?.match(/position (\d+)/)?.[1]
+            debug(
+              'Livewire update: JSON.parse failed on component snapshot. Error: %s. Snapshot length: %d. Around position %s: %s',
+              err.message,
+              raw.length,
+              pos,
+              pos ? raw.slice(Math.max(0, Number(pos) - 60), Number(pos) + 60) : raw.slice(0, 200)
+            )
+            throw new InvalidPayloadException('snapshot must be valid JSON')
+          }
+          let [newSnapshot, effects] = await livewire.update(
+            ctx,
+            snapshot,
+            component.updates,
+            component.calls
           )
-          throw err
-        }
-        let [newSnapshot, effects] = await livewire.update(
-          ctx,
-          snapshot,
-          component.updates,
-          component.calls
-        )
-
-        if (effects && effects.redirect) {
-          isRedirect = true
-        }
 
-        debug('update response effects: %O', effects)
-        debug('update response effects.xjs: %O', effects?.xjs)
+          if (effects && effects.redirect) {
+            isRedirect = true
+          }
 
-        result.components.push({
-          snapshot: JSON.stringify(newSnapshot),
-          effects,
-        })
+          debug('update response effects: %O', effects)
+          debug('update response effects.xjs: %O', effects?.xjs)
+
+          result.components.push({
+            snapshot: JSON.stringify(newSnapshot),
+            effects,
+          })
+        }
+      } catch (error) {
+        if (SupportStreaming.isStreaming(ctx)) {
+          await SupportStreaming.failStream(ctx)
+        }
+        throw error
       }
 
-      // @ts-ignore
       if (ctx.session && !isRedirect) {
-        // @ts-ignore
         ctx.session.responseFlashMessages.clear()
-        // @ts-ignore
         ctx.session.flashMessages.clear()
+
+        // Streaming committed the flash messages with the session already
+        if (SupportStreaming.isStreaming(ctx)) {
+          ctx.session.forget(ctx.session.flashKey)
+        }
+      }
+
+      if (SupportStreaming.isStreaming(ctx)) {
+        await SupportStreaming.endStream(ctx, result)
+        return
       }
 
       return result
     })
+
+    const fileUploadController = new FileUploadController()
+
+    router
+      .post('/livewire/upload-file', (ctx) => fileUploadController.handle(ctx))
+      .as(FileUploadConfiguration.routeName)
   }
 
   async register() {
@@ -221,6 +262,14 @@ export default class LivewireProvider {
       SupportLazyLoading,
       SupportValidation,
       SupportFormObjects,
+      SupportNestingComponents,
+      SupportReactiveProps,
+      SupportFileUploads,
+      SupportStreaming,
+      SupportFileDownloads,
+      SupportIslands,
+      SupportAuthorization,
+      SupportThrottling,
     ]
 
     for (const feature of FEATURES) {
@@ -234,7 +283,16 @@ export default class LivewireProvider {
       }
     }
 
-    debug('registering property synthesizers: ModelSynth, ArraySynth, DateSynth, FormObjectSynth')
-    Livewire.registerPropertySynthesizer([ModelSynth, ArraySynth, DateSynth, FormObjectSynth])
+    debug(
+      'registering property synthesizers: ModelSynth, ArraySynth, DateSynth, FileUploadSynth, FormObjectSynth, EncryptedSynth'
+    )
+    Livewire.registerPropertySynthesizer([
+      ModelSynth,
+      ArraySynth,
+      DateSynth,
+      FileUploadSynth,
+      FormObjectSynth,
+      EncryptedSynth,
+    ])
   }
 }
@@ -124,6 +124,45 @@ export class BaseComponent {
     return this.view.render(this.viewPath)
   }
 
+  /**
+   * Optional lifecycle hooks, called on every request before the component is
+   * mounted or hydrated, and once it is ready
+   */
+  boot?(): void | Promise<void>
+  booted?(): void | Promise<void>
+
+  /**
+   * Optional lifecycle hooks, called when the component is restored from and
+   * turned back into a snapshot during updates. `hydrateFoo(value)` and
+   * `dehydrateFoo(value)` are called for each property as well.
+   */
+  hydrate?(): void | Promise<void>
+  dehydrate?(): void | Promise<void>
+
+  /**
+   * Optional lifecycle hooks, called around `render()`
+   */
+  rendering?(
+    view: ReturnType<Edge['createRenderer']>,
+    data: Record<string, any>
+  ): void | Promise<void>
+  rendered?(view: ReturnType<Edge['createRenderer']>, html: string): void | Promise<void>
+
+  /**
+   * Optional lifecycle hook, called once the request is done with the
+   * component, even when it failed. Use it to release resources like
+   * transactions, subscriptions or temporary files. `removed` is true when the
+   * component is no longer on the page, e.g. its parent stopped rendering it.
+   */
+  destroy?(options: { removed: boolean }): void | Promise<void>
+
+  /**
+   * Optional hook called with errors thrown while the component is mounted,
+   * updated or rendered. Call `stopPropagation` to keep the error from being
+   * rethrown.
+   */
+  exception?(error: unknown, stopPropagation: () => void): void | Promise<void>
+
   skipRender(html?: string) {
     store(this).set('skipRender', html ?? true)
   }
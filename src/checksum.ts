@@ -1,4 +1,4 @@
-import { createHmac } from 'node:crypto'
+import { createHmac, timingSafeEqual } from 'node:crypto'
 import debug from './debug.js'
 
 class CorruptComponentPayloadException extends Error {
@@ -9,38 +9,88 @@ Ensure that the [name, id, data] of the Livewire component wasn't tampered with
   }
 }
 
+/**
+ * Signs the JSON of a snapshot with a key. Implement it to sign snapshots
+ * with another algorithm than HMAC-SHA256.
+ */
+export interface SnapshotSigner {
+  sign(payload: string, key: string): string
+}
+
+export class HmacSigner implements SnapshotSigner {
+  constructor(private algorithm: string = 'sha256') {}
+
+  sign(payload: string, key: string) {
+    return createHmac(this.algorithm, key).update(payload).digest('hex')
+  }
+}
+
+/**
+ * Signs snapshots with the first key and verifies them against every key,
+ * so snapshots signed before a key rotation stay valid while the previous
+ * keys are kept around
+ */
 export class Checksum {
-  constructor(private key: string) {
+  protected keys: string[]
+
+  constructor(
+    keys: string | string[],
+    protected signer: SnapshotSigner = new HmacSigner()
+  ) {
+    this.keys = [keys].flat()
     debug(
-      'Checksum initialized with key length: %d, key preview: %s',
-      key.length,
-      key.substring(0, 10) + '...'
+      'Checksum initialized with %d key(s), key length: %d, key preview: %s',
+      this.keys.length,
+      this.keys[0].length,
+      this.keys[0].substring(0, 10) + '...'
     )
   }
 
   verify(snapshot: any) {
-    let checksum = snapshot['checksum']
-
-    delete snapshot['checksum']
+    const { checksum, ...payload } = snapshot ?? {}
 
-    const generated = this.generate(snapshot)
-    debug(
-      'Checksum verify: received=%s, generated=%s, match=%s',
-      checksum,
-      generated,
-      checksum === generated
-    )
+    const valid =
+      typeof checksum === 'string' &&
+      this.keys.some((key) => Checksum.equals(checksum, this.sign(payload, key)))
+    debug('Checksum verify: received=%s, match=%s', checksum, valid)
 
-    if (checksum !== generated) {
-      debug('Checksum MISMATCH - snapshot JSON: %s', JSON.stringify(snapshot))
+    if (!valid) {
+      debug('Checksum MISMATCH - snapshot JSON: %s', JSON.stringify(payload))
       throw new CorruptComponentPayloadException()
     }
   }
 
   generate(snapshot: any) {
-    const json = JSON.stringify(snapshot)
-    const result = createHmac('sha256', this.key).update(json).digest('hex')
+    return this.sign(snapshot, this.keys[0])
+  }
+
+  protected sign(snapshot: any, key: string) {
+    // memo.children is rewritten by the client to merge in its latest children,
+    // so it is left out of the signature
+    const json = JSON.stringify(Checksum.withoutChildren(snapshot))
+    const result = this.signer.sign(json, key)
     debug('Checksum generate: json length=%d, result=%s, json=%s', json.length, result, json)
     return result
   }
+
+  /**
+   * Compare two checksums in constant time
+   */
+  protected static equals(received: string, expected: string) {
+    const a = Buffer.from(received)
+    const b = Buffer.from(expected)
+
+    return a.length === b.length && timingSafeEqual(a, b)
+  }
+
+  protected static withoutChildren(snapshot: any) {
+    if (!snapshot?.memo || !('children' in snapshot.memo)) {
+      return snapshot
+    }
+
+    const memo = { ...snapshot.memo }
+    delete memo.children
+
+    return { ...snapshot, memo }
+  }
 }
@@ -6,6 +6,12 @@ import { HandlesDecorators } from './features/support_decorators/handles_decorat
 import { HandlesRedirects } from './features/support_redirects/handles_redirects.js'
 import { HandlesEvents } from './features/support_events/handles_events.js'
 import { HandlesValidation } from './features/support_validation/handles_validation.js'
+import { HandlesFileUploads } from './features/support_file_uploads/handles_file_uploads.js'
+import { HandlesStreaming } from './features/support_streaming/handles_streaming.js'
+import { HandlesFileDownloads } from './features/support_file_downloads/handles_file_downloads.js'
+import { HandlesIslands } from './features/support_islands/handles_islands.js'
+import { HandlesAuthorization } from './features/support_authorization/handles_authorization.js'
+import { HandlesComputed } from './features/support_computed/handles_computed.js'
 import type { ApplicationService, HttpRouterService } from '@adonisjs/core/types'
 import { compose } from '@poppinss/utils'
 import { InferValidationReturnType } from './features/support_validation/types.js'
@@ -18,7 +24,10 @@ interface ComponentOptions {
   name: string
 }
 
-export abstract class Component extends compose(
+/**
+ * `compose` accepts up to 9 mixins, so they are applied in two steps
+ */
+const ComposedComponent = compose(
   BaseComponent,
   HandlesEvents,
   HandlesRedirects,
@@ -26,6 +35,16 @@ export abstract class Component extends compose(
   HandlesPageComponents,
   HandlesJsEvaluation,
   HandlesValidation
+)
+
+export abstract class Component extends compose(
+  ComposedComponent,
+  HandlesFileUploads,
+  HandlesStreaming,
+  HandlesFileDownloads,
+  HandlesIslands,
+  HandlesAuthorization,
+  HandlesComputed
 ) {
   constructor({ ctx, app, router, id, name }: ComponentOptions) {
     super()
@@ -0,0 +1,323 @@
+import { existsSync, readFileSync, readdirSync, rmSync, writeFileSync, mkdirSync } from 'node:fs'
+import { dirname, extname, isAbsolute, join, relative, sep } from 'node:path'
+import string from '@adonisjs/core/helpers/string'
+import type { ApplicationService } from '@adonisjs/core/types'
+import { extractComponentParts } from './utils/component.js'
+import debug from './debug.js'
+
+/**
+ * Where a discovered component is loaded from. Paths are relative to the
+ * application root.
+ *
+ * - `class`: a module exporting the component class
+ * - `view`: a single file component (Edge view with a `<script server>` block)
+ *
+ * `view` is the template of the component found inside the view roots.
+ */
+export type ComponentManifestEntry = {
+  type: 'class' | 'view'
+  path: string
+  view?: string
+}
+
+export type ComponentManifest = Record<string, ComponentManifestEntry>
+
+/**
+ * Directories of a component namespace. Paths are relative to the application
+ * root, or absolute for packages living outside of it.
+ */
+export type ComponentNamespace = {
+  classes?: string
+  views?: string
+}
+
+/**
+ * Roots where application components live, in priority order. A `*` segment
+ * matches every directory, so each module under `modules` can keep its
+ * components in its own `livewire` directory.
+ */
+export type ComponentRoots = {
+  classes?: string | string[]
+  views?: string | string[]
+}
+
+const CLASS_EXTENSIONS = ['.js', '.ts', '.tsx']
+
+/**
+ * Discovers components inside the class and view roots (`app/livewire` and
+ * `resources/views/livewire` by default) and keeps a manifest of component names to their files, so components are
+ * resolved without probing the filesystem on every request.
+ *
+ * Packages and app modules may register their own directories as a namespace,
+ * whose components resolve as `namespace::component`.
+ *
+ * The manifest is written to disk by `node ace livewire:cache` and removed by
+ * `node ace livewire:clear`. Without a cached manifest, components are
+ * discovered once on first use.
+ */
+export class ComponentDiscovery {
+  #app: ApplicationService
+  #manifest: ComponentManifest | null = null
+  #namespaces = new Map<string, ComponentNamespace>()
+
+  classRoots: string[]
+  viewRoots: string[]
+
+  constructor(app: ApplicationService, roots: ComponentRoots = {}) {
+    this.#app = app
+    this.classRoots = [roots.classes ?? 'app/livewire'].flat()
+    this.viewRoots = [roots.views ?? 'resources/views/livewire'].flat()
+  }
+
+  /**
+   * Path of the cached manifest file
+   */
+  get manifestPath() {
+    return this.#app.tmpPath('livewire-components.json')
+  }
+
+  /**
+   * Normalize a component name, so `todoList`, `todo_list` and `todo-list`
+   * resolve to the same component. The namespace of `admin::users.table` is
+   * kept as it is.
+   */
+  static normalizeName(name: string) {
+    const { namespace, component } = ComponentDiscovery.parseName(name)
+    const normalized = component
+      .split('.')
+      .map((segment) => string.dashCase(segment))
+      .join('.')
+
+    return namespace ? `${namespace}::${normalized}` : normalized
+  }
+
+  /**
+   * Split `admin::users.table` into its namespace and component name
+   */
+  static parseName(name: string): { namespace: string | null; component: string } {
+    const index = name.indexOf('::')
+    if (index === -1) return { namespace: null, component: name }
+
+    return { namespace: name.slice(0, index), component: name.slice(index + 2) }
+  }
+
+  /**
+   * Register a namespace, so components inside its directories resolve as
+   * `namespace::component`
+   */
+  addNamespace(namespace: string, directories: ComponentNamespace) {
+    this.#namespaces.set(namespace, directories)
+    this.#manifest = null
+  }
+
+  namespaces() {
+    return this.#namespaces
+  }
+
+  /**
+   * Get the manifest, reading it from the cache file or discovering the
+   * components when it has not been loaded yet
+   */
+  manifest(): ComponentManifest {
+    if (this.#manifest) return this.#manifest
+
+    if (existsSync(this.manifestPath)) {
+      debug('discovery: loading manifest from %s', this.manifestPath)
+      this.#manifest = JSON.parse(readFileSync(this.manifestPath, 'utf-8')) as ComponentManifest
+    } else {
+      this.#manifest = this.discover()
+    }
+
+    return this.#manifest
+  }
+
+  /**
+   * Find the manifest entry of a component. Outside of production, the
+   * components are discovered again when the name is unknown, so components
+   * created while the app is running are picked up.
+   */
+  find(name: string): ComponentManifestEntry | undefined {
+    const normalized = ComponentDiscovery.normalizeName(name)
+    const entry = this.manifest()[normalized]
+
+    if (entry || this.#app.inProduction || this.isCached()) return entry
+
+    this.#manifest = this.discover()
+    return this.#manifest[normalized]
+  }
+
+  /**
+   * Absolute URL of a manifest entry, suitable for `import()`
+   */
+  makeURL(entry: ComponentManifestEntry) {
+    return this.#app.makeURL(entry.path)
+  }
+
+  /**
+   * Absolute path of a component directory
+   */
+  resolvePath(directory: string) {
+    return isAbsolute(directory) ? directory : this.#app.makePath(directory)
+  }
+
+  /**
+   * Template rendered by a component. Templates inside the views directory
+   * use their name (`livewire/counter`), others their absolute path. Without
+   * a discovered template, the component is expected inside the first view
+   * root.
+   */
+  viewPath(name: string) {
+    const { namespace, component } = ComponentDiscovery.parseName(name)
+    const segments = component
+      .split('.')
+      .map((segment) => string.dashCase(segment))
+      .join('/')
+
+    if (namespace && this.#namespaces.get(namespace)?.views) {
+      return `${namespace}::${segments}`
+    }
+
+    const entry = this.manifest()[ComponentDiscovery.normalizeName(name)]
+    const file = entry?.view
+      ? this.resolvePath(entry.view)
+      : join(this.resolvePath(this.viewRoots[0]), `${segments}.edge`)
+
+    return this.templateName(file)
+  }
+
+  /**
+   * Name Edge renders a template file with
+   */
+  templateName(file: string) {
+    const path = relative(this.#app.viewsPath(), file)
+    if (path.startsWith('..') || isAbsolute(path)) return file
+
+    return path.slice(0, -extname(path).length).split(sep).join('/')
+  }
+
+  isCached() {
+    return existsSync(this.manifestPath)
+  }
+
+  /**
+   * Scan the component directories and build a fresh manifest
+   */
+  discover(): ComponentManifest {
+    const manifest: ComponentManifest = {}
+
+    this.#discoverInto(manifest, '', this.classRoots, this.viewRoots)
+    for (const [namespace, { classes, views }] of this.#namespaces) {
+      this.#discoverInto(manifest, `${namespace}::`, classes ? [classes] : [], views ? [views] : [])
+    }
+
+    debug('discovery: discovered %d components', Object.keys(manifest).length)
+    return manifest
+  }
+
+  /**
+   * Discover the components and write the manifest to disk
+   */
+  cache(): ComponentManifest {
+    const manifest = this.discover()
+
+    mkdirSync(dirname(this.manifestPath), { recursive: true })
+    writeFileSync(this.manifestPath, JSON.stringify(manifest, null, 2))
+    this.#manifest = manifest
+
+    return manifest
+  }
+
+  /**
+   * Remove the cached manifest
+   */
+  clear() {
+    rmSync(this.manifestPath, { force: true })
+    this.#manifest = null
+  }
+
+  #discoverInto(
+    manifest: ComponentManifest,
+    prefix: string,
+    classRoots: string[],
+    viewRoots: string[]
+  ) {
+    const views: Record<string, string> = {}
+
+    for (const root of viewRoots.flatMap((directory) => this.#expand(directory))) {
+      for (const file of this.#scan(root)) {
+        if (extname(file) !== '.edge') continue
+
+        const name = prefix + this.#nameFromPath(relative(root, file))
+        views[name] ??= this.#relativePath(file)
+      }
+    }
+
+    for (const root of classRoots.flatMap((directory) => this.#expand(directory))) {
+      for (const file of this.#scan(root)) {
+        if (!CLASS_EXTENSIONS.includes(extname(file)) || file.endsWith('.d.ts')) continue
+
+        const name = prefix + this.#nameFromPath(relative(root, file))
+        manifest[name] ??= {
+          type: 'class',
+          path: this.#relativePath(file),
+          ...(views[name] && { view: views[name] }),
+        }
+      }
+    }
+
+    for (const [name, view] of Object.entries(views)) {
+      if (manifest[name]) continue
+
+      const { serverCode } = extractComponentParts(readFileSync(this.resolvePath(view), 'utf-8'))
+      if (serverCode) {
+        manifest[name] = { type: 'view', path: view, view }
+      }
+    }
+  }
+
+  /**
+   * Resolve a root to its directories, expanding `*` segments
+   */
+  #expand(directory: string): string[] {
+    return directory.split('/').reduce<string[]>(
+      (paths, segment) => {
+        if (segment !== '*') return paths.map((path) => join(path, segment))
+
+        return paths.flatMap((path) =>
+          existsSync(path)
+            ? readdirSync(path, { withFileTypes: true })
+                .filter((entry) => entry.isDirectory())
+                .map((entry) => join(path, entry.name))
+                .sort()
+            : []
+        )
+      },
+      [isAbsolute(directory) ? '/' : this.#app.makePath()]
+    )
+  }
+
+  /**
+   * `todo_list/index.ts` and `todo_list.ts` both become `todo-list`
+   */
+  #nameFromPath(path: string) {
+    const segments = path.slice(0, -extname(path).length).split(/[\\/]/)
+    if (segments.length > 1 && segments[segments.length - 1] === 'index') segments.pop()
+
+    return ComponentDiscovery.normalizeName(segments.join('.'))
+  }
+
+  #relativePath(file: string) {
+    return relative(this.#app.appRoot.pathname, file).split('\\').join('/')
+  }
+
+  #scan(directory: string): string[] {
+    if (!existsSync(directory)) return []
+
+    return readdirSync(directory, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap((entry) => {
+        const path = join(directory, entry.name)
+        return entry.isDirectory() ? this.#scan(path) : [path]
+      })
+  }
+}
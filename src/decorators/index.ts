@@ -1,15 +1,26 @@
 import 'reflect-metadata'
 import { Component } from '../component.js'
 import Computed from '../features/support_computed/computed.js'
+import type { ComputedOptions } from '../features/support_computed/types.js'
+import Encrypted from '../features/support_encrypted_properties/encrypted.js'
 import On from '../features/support_events/on.js'
+import Js from '../features/support_js_evaluation/js.js'
 import Lazy from '../features/support_lazy_loading/lazy.js'
 import Locked from '../features/support_locked_properties/locked.js'
 import Modelable from '../features/support_models/modelable.js'
 import Layout from '../features/support_page_components/layout.js'
 import Title from '../features/support_page_components/title.js'
 import Url from '../features/support_query_string/url.js'
+import type { UrlOptions } from '../features/support_query_string/types.js'
+import Reactive from '../features/support_reactive_props/reactive.js'
 import Renderless from '../features/support_renderless/renderless.js'
+import Session from '../features/support_session/session.js'
 import Validator from '../features/support_validation/validator.js'
+import Authorize from '../features/support_authorization/authorize.js'
+import { ComponentArgument } from '../features/support_authorization/component_argument.js'
+import type { AuthorizeAbility } from '../features/support_authorization/types.js'
+import Throttle from '../features/support_throttling/throttle.js'
+import type { ThrottleOptions } from '../features/support_throttling/types.js'
 import type { HasValidate } from '../features/support_validation/types.js'
 import type { ConstructableSchema, Infer } from '@vinejs/vine/types'
 
@@ -34,9 +45,28 @@ export function lazy(isolate: boolean = true) {
   }
 }
 
-export function computed(name?: string) {
+/**
+ * Expose the result of a method to the view, memoized for the request.
+ * `persist` caches it across the requests of the component instance,
+ * `cache` across all the instances
+ *
+ * @example
+ * ```ts
+ * class Dashboard extends Component {
+ *   @computed({ persist: 60 })
+ *   async stats() {}
+ *
+ *   @computed({ cache: '1 hour', key: 'dashboard:revenue', tags: ['orders'] })
+ *   async revenue() {}
+ * }
+ * ```
+ */
+export function computed(nameOrOptions?: string | (ComputedOptions & { name?: string })) {
+  const { name, ...options } =
+    typeof nameOrOptions === 'string' ? { name: nameOrOptions } : (nameOrOptions ?? {})
+
   return function (target: Component, propertyKey: string, _descriptor: PropertyDescriptor) {
-    target.addDecorator(new Computed(name || propertyKey, propertyKey))
+    target.addDecorator(new Computed(name || propertyKey, propertyKey, options))
   }
 }
 
@@ -58,9 +88,78 @@ export function locked() {
   }
 }
 
-export function url(as: string | null = null) {
+/**
+ * Keep a property passed by the parent in sync: when the parent renders
+ * again with a new value, the child renders again with it
+ *
+ * @example
+ * ```ts
+ * class TodoCount extends Component {
+ *   @reactive()
+ *   todos: Todo[] = []
+ * }
+ * ```
+ */
+export function reactive() {
+  return function (target: Component, propertyKey: string) {
+    target.addDecorator(new Reactive(propertyKey))
+  }
+}
+
+export function encrypted() {
   return function (target: Component, propertyKey: string) {
-    target.addDecorator(new Url(propertyKey, as))
+    target.addDecorator(new Encrypted(propertyKey))
+  }
+}
+
+/**
+ * Persist a property in the session, so it survives page reloads. The key
+ * defaults to the component and property names, and may include
+ * placeholders resolved from the component props
+ *
+ * @example
+ * ```ts
+ * class PostsTable extends Component {
+ *   @session()
+ *   search = ''
+ *
+ *   @session('posts.{author.id}.status')
+ *   status = 'published'
+ * }
+ * ```
+ */
+export function session(key?: string) {
+  return function (target: Component, propertyKey: string) {
+    target.addDecorator(new Session(propertyKey, key ?? null))
+  }
+}
+
+/**
+ * Sync a property with the query string. The value is read from the query
+ * string on mount and cast to the declared type of the property
+ *
+ * @example
+ * ```ts
+ * class PostsTable extends Component {
+ *   @url({ as: 'q', history: true })
+ *   search = ''
+ *
+ *   @url({ except: 1 })
+ *   page: number = 1
+ * }
+ * ```
+ */
+export function url(options: UrlOptions | string | null = {}) {
+  const {
+    as = null,
+    history,
+    keep,
+    except = null,
+    nullable = null,
+  } = typeof options === 'string' || options === null ? { as: options } : options
+
+  return function (target: Component, propertyKey: string) {
+    target.addDecorator(new Url(propertyKey, as, history, keep, except, nullable))
   }
 }
 
@@ -101,10 +200,72 @@ export function bind() {
 
 export function renderless() {
   return function (target: Component, propertyKey: string) {
-    target.addDecorator(new Renderless())
+    target.addDecorator(new Renderless(propertyKey))
+  }
+}
+
+/**
+ * Js decorator for methods
+ *
+ * The method returns a JavaScript expression that runs on the client when
+ * the method is called through `$wire`, without a server round trip. The
+ * expression is evaluated with the component element as scope.
+ *
+ * @example
+ * ```typescript
+ * class Sidebar extends Component {
+ *   @js()
+ *   toggle() {
+ *     return '$wire.open = !$wire.open'
+ *   }
+ * }
+ * ```
+ */
+export function js() {
+  return function (target: Component, propertyKey: string, _descriptor?: PropertyDescriptor) {
+    target.addDecorator(new Js(propertyKey))
+  }
+}
+
+/**
+ * Authorize decorator for methods
+ *
+ * Checks a bouncer ability or policy action before the method is called from
+ * the browser. Denied calls are not run and send a `forbidden` effect.
+ *
+ * @param ability - Ability name, ability reference or `[Policy, action]` tuple
+ * @param args - Ability arguments. Use `arg()` to read them from the component.
+ *
+ * @example
+ * ```typescript
+ * class EditPost extends Component {
+ *   @authorize('editPost', arg((component: EditPost) => component.post))
+ *   async save() {}
+ *
+ *   @authorize([PostPolicy, 'delete'], arg((component: EditPost) => component.post))
+ *   async delete() {}
+ * }
+ * ```
+ */
+export function authorize(ability: AuthorizeAbility, ...args: unknown[]) {
+  return function (target: Component, propertyKey: string, _descriptor?: PropertyDescriptor) {
+    target.addDecorator(new Authorize(propertyKey, ability, args))
   }
 }
 
+/**
+ * Argument of `@authorize` read from the component when the action is
+ * authorized. Other arguments, including classes, are passed as they are.
+ *
+ * @example
+ * ```typescript
+ * @authorize(editPost, arg((component: EditPost) => component.post))
+ * ```
+ */
+export function arg<T extends Component>(resolver: (component: T) => unknown) {
+  return new ComponentArgument<T>(resolver)
+}
+
 /**
  * Validator decorator for properties
  *
@@ -136,3 +297,35 @@ export function validator<TSchema extends ConstructableSchema<any, any, any>>(
     target.addDecorator(new Validator(propertyKey, schemaFactory, options?.onUpdate ?? true))
   } as any
 }
+
+/**
+ * Throttle decorator for methods
+ *
+ * Limits how many times the method can be called from the browser, using
+ * `@adonisjs/limiter`. Calls over the limit are not run and send a
+ * `throttled` effect, along with an error for the method in the error bag.
+ *
+ * @param requests - Number of calls allowed
+ * @param duration - Window of the limit, in seconds or as a string (`'1 minute'`)
+ * @param options - `key`: limit per `'user'` (default), `'ip'`, `'component'` or a custom key
+ *
+ * @example
+ * ```typescript
+ * class Contact extends Component {
+ *   @throttle(3, '1 minute')
+ *   async send() {}
+ *
+ *   @throttle(10, 60, { key: 'component' })
+ *   async search() {}
+ * }
+ * ```
+ */
+export function throttle(
+  requests: number,
+  duration: number | string,
+  options: ThrottleOptions = {}
+) {
+  return function (target: Component, propertyKey: string, _descriptor?: PropertyDescriptor) {
+    target.addDecorator(new Throttle(propertyKey, requests, duration, options))
+  }
+}
@@ -1,5 +1,17 @@
+import type { Secret } from '@adonisjs/core/helpers'
+import type { SnapshotSigner } from './checksum.js'
+
 export const defaultConfig = {
-  class_namespace: 'app/livewire',
+  /**
+   * Directories of component classes, relative to the application root. When
+   * several are given, the first one containing a component wins and new
+   * components are generated in the first one
+   */
+  class_namespace: 'app/livewire' as string | string[],
+  /**
+   * Directories of component views and single file components
+   */
+  view_path: 'resources/views/livewire' as string | string[],
   layout: 'components.layouts.main',
   injectAssets: true,
   renderOnRedirect: false,
@@ -29,18 +41,67 @@ export const defaultConfig = {
      */
     maxComponents: 10,
   },
+  /**
+   * Temporary file uploads (PHP parity: temporary_file_upload)
+   */
+  temporaryFileUpload: {
+    /**
+     * Directory where uploads are kept until the component stores them.
+     * Defaults to `tmp/livewire-tmp` inside the application root
+     */
+    directory: null as string | null,
+    /**
+     * Validation rules applied to every uploaded file
+     */
+    rules: {
+      size: '12mb' as string | number,
+      extnames: undefined as string[] | undefined,
+    },
+    /**
+     * How long the signed upload url stays valid
+     */
+    maxUploadTime: '5m',
+    /**
+     * Remove temporary files older than 24 hours when new uploads finish
+     */
+    cleanup: true,
+  },
+  /**
+   * Encrypt every property in the snapshot data, instead of the ones
+   * decorated with `@encrypted`. Properties can't be read in the browser
+   * anymore, so `wire:model` and `$wire` only work with unencrypted data
+   */
+  encryptData: false,
+  /**
+   * Snapshot checksums. Snapshots are signed with the app key and verified
+   * against the app key and the previous keys, so components rendered before
+   * an app key rotation keep working
+   */
+  checksum: {
+    previousKeys: [] as Array<string | Secret<string>>,
+    /**
+     * Signer used instead of HMAC-SHA256
+     */
+    signer: null as SnapshotSigner | null,
+  },
 }
 
 export type Config = typeof defaultConfig
 
 export type PartialConfig = {
-  class_namespace?: string
+  class_namespace?: string | string[]
+  view_path?: string | string[]
   layout?: string
   injectAssets?: boolean
   renderOnRedirect?: boolean
+  encryptData?: boolean
   componentPlaceholder?: string | null
   navigate?: Partial<Config['navigate']>
   limits?: Partial<Config['limits']>
+  temporaryFileUpload?: Partial<Omit<Config['temporaryFileUpload'], 'rules'>> & {
+    rules?: Partial<Config['temporaryFileUpload']['rules']>
+  }
+  checksum?: Partial<Config['checksum']>
 }
 
 export function defineConfig(config: PartialConfig): Config {
@@ -55,5 +116,17 @@ export function defineConfig(config: PartialConfig): Config {
       ...defaultConfig.limits,
       ...(config.limits || {}),
     },
+    temporaryFileUpload: {
+      ...defaultConfig.temporaryFileUpload,
+      ...(config.temporaryFileUpload || {}),
+      rules: {
+        ...defaultConfig.temporaryFileUpload.rules,
+        ...(config.temporaryFileUpload?.rules || {}),
+      },
+    },
+    checksum: {
+      ...defaultConfig.checksum,
+      ...(config.checksum || {}),
+    },
   }
 }
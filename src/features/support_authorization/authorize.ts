@@ -0,0 +1,25 @@
+import { Decorator } from '../support_decorators/decorator.js'
+import { ComponentArgument } from './component_argument.js'
+import type { AuthorizeAbility } from './types.js'
+
+/**
+ * Authorize decorator for methods
+ *
+ * The ability is checked by SupportAuthorization before the method is
+ * called from the browser.
+ */
+export default class Authorize extends Decorator {
+  constructor(
+    public method: string,
+    public ability: AuthorizeAbility,
+    public args: unknown[] = []
+  ) {
+    super()
+  }
+
+  async authorize() {
+    const args = ComponentArgument.resolve(this.args, this.component)
+
+    await this.component.authorize(this.ability, ...args)
+  }
+}
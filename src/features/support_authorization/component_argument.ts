@@ -0,0 +1,15 @@
+/**
+ * Argument of `@authorize` read from the component when the action is
+ * authorized, so it can depend on the component state. Created with `arg()`.
+ */
+export class ComponentArgument<T = any> {
+  constructor(public resolver: (component: T) => unknown) {}
+
+  /**
+   * Resolve the arguments of an ability for a component. Other values,
+   * including functions and classes, are passed as they are.
+   */
+  static resolve(args: unknown[], component: unknown): unknown[] {
+    return args.map((arg) => (arg instanceof ComponentArgument ? arg.resolver(component) : arg))
+  }
+}
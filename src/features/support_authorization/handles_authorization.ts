@@ -0,0 +1,34 @@
+import { BaseComponent } from '../../base_component.js'
+import { Constructor } from '../../types.js'
+import type { AuthorizeAbility, AuthorizeBouncer } from './types.js'
+
+/** PHP parity: AuthorizesRequests::authorize(), backed by the request bouncer (ctx.bouncer) */
+export function HandlesAuthorization<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    /**
+     * Authorize the current user for an ability or a policy action. Throws
+     * `E_AUTHORIZATION_FAILURE` when access is denied.
+     *
+     * @example
+     * await this.authorize('editPost', this.post)
+     * await this.authorize([PostPolicy, 'edit'], this.post)
+     */
+    async authorize(ability: AuthorizeAbility, ...args: unknown[]): Promise<void> {
+      const bouncer = (this.ctx as any)?.bouncer as AuthorizeBouncer | undefined
+
+      if (!bouncer) {
+        throw new Error(
+          'Cannot authorize without a bouncer instance. Make sure the initialize_bouncer_middleware is registered'
+        )
+      }
+
+      if (Array.isArray(ability)) {
+        const [policy, action] = ability
+        await bouncer.with(policy).authorize(action, ...args)
+        return
+      }
+
+      await bouncer.authorize(ability, ...args)
+    }
+  }
+}
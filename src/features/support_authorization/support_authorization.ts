@@ -0,0 +1,47 @@
+import ComponentHook from '../../component_hook.js'
+import { Component } from '../../component.js'
+import { store } from '../../store.js'
+import Authorize from './authorize.js'
+import type { AuthorizationFailure } from './types.js'
+
+/**
+ * SupportAuthorization turns bouncer authorization failures into a
+ * `forbidden` effect
+ *
+ * `@authorize` abilities are checked before the action and before the
+ * `call` hooks, so a denied action is never run. Failures thrown by
+ * `this.authorize()` inside an action are handled the same way.
+ */
+export class SupportAuthorization extends ComponentHook {
+  /**
+   * Check the `@authorize` abilities of a method, throwing
+   * `E_AUTHORIZATION_FAILURE` when one of them is denied
+   */
+  static async authorizeCall(component: Component, method: string) {
+    for (const decorator of component.getDecorators()) {
+      if (!(decorator instanceof Authorize) || decorator.method !== method) continue
+
+      decorator.__boot(component)
+      await decorator.authorize()
+    }
+  }
+
+  async exception(...params: any[]): Promise<void> {
+    const [error, stopPropagation] = params
+    if (error?.code !== 'E_AUTHORIZATION_FAILURE') return
+
+    store(this.component).set('forbidden', {
+      status: error.response?.status ?? error.status ?? 403,
+      message: error.response?.message || error.message,
+    } satisfies AuthorizationFailure)
+
+    stopPropagation?.()
+  }
+
+  async dehydrate(context: { addEffect: (k: string, v: any) => void }) {
+    const s = store(this.component)
+    if (!s.has('forbidden')) return
+
+    context.addEffect('forbidden', s.get('forbidden'))
+  }
+}
@@ -0,0 +1,76 @@
+import { AssertionError } from 'node:assert'
+import { Constructor } from '../../types.js'
+import { BaseTestable } from '../support_testing/base_testable.js'
+
+/**
+ * Provides authorization assertion methods for testing components
+ * Equivalent to PHP's assertForbidden() in Testable
+ */
+export function TestsAuthorization<TConstructor extends Constructor<BaseTestable>>(
+  Base: TConstructor
+) {
+  return class extends Base {
+    /**
+     * Assert that an action was denied by bouncer
+     *
+     * @param message - Optional expected denial message
+     *
+     * @example
+     * await test.call('delete')
+     * test.assertForbidden()
+     * test.assertForbidden('Only authors can delete posts')
+     */
+    assertForbidden(message?: string): this {
+      const forbidden = this.state.getEffects().forbidden
+
+      if (!forbidden) {
+        throw new AssertionError({
+          message: 'Failed asserting that the action was forbidden.',
+          actual: undefined,
+          expected: 'forbidden effect',
+          operator: 'forbidden',
+        })
+      }
+
+      if (message !== undefined && forbidden.message !== message) {
+        throw new AssertionError({
+          message: `Failed asserting that the forbidden message [${forbidden.message}] matches [${message}].`,
+          actual: forbidden.message,
+          expected: message,
+          operator: 'forbidden',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that no action was denied by bouncer
+     *
+     * @example
+     * test.assertNotForbidden()
+     */
+    assertNotForbidden(): this {
+      const forbidden = this.state.getEffects().forbidden
+
+      if (forbidden) {
+        throw new AssertionError({
+          message: `Failed asserting that the action was not forbidden, got [${forbidden.message}].`,
+          actual: forbidden.message,
+          expected: 'no forbidden effect',
+          operator: 'notForbidden',
+        })
+      }
+
+      return this
+    }
+  }
+}
+
+/**
+ * Interface for type safety when using TestsAuthorization mixin
+ */
+export interface TestsAuthorization {
+  assertForbidden(message?: string): this
+  assertNotForbidden(): this
+}
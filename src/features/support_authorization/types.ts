@@ -0,0 +1,31 @@
+import type { BouncerAbility } from '@adonisjs/bouncer/types'
+import type { Constructor } from '../../types.js'
+
+/**
+ * Ability checked by `@authorize` and `this.authorize()`
+ *
+ * - the name of a pre-defined ability (`'editPost'`)
+ * - an ability reference (`editPost`)
+ * - a policy and one of its actions (`[PostPolicy, 'edit']` or `['PostPolicy', 'edit']`)
+ */
+export type AuthorizeAbility =
+  string | BouncerAbility<any> | [policy: string | Constructor<any>, action: string]
+
+/**
+ * The request bouncer, as used to authorize components. Abilities and
+ * policies are defined by the application, so they are not narrowed.
+ */
+export interface AuthorizeBouncer {
+  authorize(ability: string | BouncerAbility<any>, ...args: unknown[]): Promise<void>
+  with(policy: string | Constructor<any>): {
+    authorize(action: string, ...args: unknown[]): Promise<void>
+  }
+}
+
+/**
+ * Authorization failure, as sent in `effects.forbidden`
+ */
+export interface AuthorizationFailure {
+  status: number
+  message: string
+}
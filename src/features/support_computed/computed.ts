@@ -1,36 +1,130 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+import type { BentoCache } from '@adonisjs/cache'
+import type { CacheService } from '@adonisjs/cache/types'
+import string from '@adonisjs/core/helpers/string'
+import type { Component } from '../../component.js'
 import { Decorator } from '../support_decorators/decorator.js'
 import { CannotCallComputedDirectlyException } from './cannot_call_computed_directly_exception.js'
+import type { ComputedOptions } from './types.js'
 
-/** PHP parity: request memoization, unset busts cache, cannot call method directly */
-export default class Computed extends Decorator {
-  protected requestCachedValue: unknown = undefined
+let memoryCache: BentoCache<any> | null = null
+
+/**
+ * Values computed during the request. Decorators are shared by the instances
+ * of a component, so they are kept per instance.
+ */
+const requestCache = new WeakMap<Component, Map<string, unknown>>()
+
+/**
+ * Use the cache of the application, or an in-memory cache when
+ * `@adonisjs/cache` is not configured
+ */
+async function useCache(app: ApplicationService): Promise<CacheService | BentoCache<any>> {
+  if (app.container.hasBinding('cache.manager')) {
+    return (await app.container.make('cache.manager' as any)) as CacheService
+  }
+
+  if (!memoryCache) {
+    const { BentoCache: Cache, store, drivers } = await import('@adonisjs/cache')
+    memoryCache = new Cache({
+      default: 'memory',
+      stores: { memory: await store().useL1Layer(drivers.memory({})).entry().resolver(app) },
+    })
+  }
 
+  return memoryCache
+}
+
+/** PHP parity: request memoization, persist/cache across requests, unset busts cache, cannot call method directly */
+export default class Computed extends Decorator {
   constructor(
     public name: string,
-    public method: string
+    public method: string,
+    public options: ComputedOptions = {}
   ) {
     super()
   }
 
-  /** Memoized get (PHP __get). Use in render or when reading computed. */
-  async getValue(): Promise<unknown> {
-    if (typeof this.component[this.method] !== 'function') return
-    if (this.requestCachedValue !== undefined) return this.requestCachedValue
+  /** Values are memoized per request, so a booted component starts over. */
+  async boot() {
+    requestCache.delete(this.component)
+  }
+
+  /**
+   * Memoized get (PHP __get). Use in render or when reading computed. The
+   * component is captured first, as another request can boot the shared
+   * decorator while the value is computed.
+   */
+  async getValue(component: Component = this.component): Promise<unknown> {
+    if (typeof component[this.method] !== 'function') return
+
+    let values = requestCache.get(component)
+    if (!values) {
+      values = new Map()
+      requestCache.set(component, values)
+    }
+    if (values.has(this.method)) return values.get(this.method)
+
+    const key = this.cacheKey(component)
+    let value: unknown
+
+    if (key) {
+      const cache = await useCache(component.app)
+      value = await cache.getOrSet({
+        key,
+        ttl: this.ttl(),
+        tags: this.options.cache ? this.options.tags : undefined,
+        factory: () => component[this.method](),
+      })
+    } else {
+      value = await component[this.method]()
+    }
+
+    values.set(this.method, value)
+    return value
+  }
+
+  /** Bust request cache and the persisted or cached value (PHP unset). */
+  async clearCache(component: Component = this.component): Promise<void> {
+    requestCache.get(component)?.delete(this.method)
+
+    const key = this.cacheKey(component)
+    if (!key) return
+
+    const cache = await useCache(component.app)
+    await cache.delete({ key })
+  }
+
+  /**
+   * Key of the value in the cache. Persisted values are keyed on the
+   * component id, cached values on the component name.
+   */
+  cacheKey(component: Component = this.component): string | null {
+    if (this.options.persist) {
+      return `livewire:computed:${component.getId()}:${this.method}`
+    }
 
-    this.requestCachedValue = await this.component[this.method]()
+    if (this.options.cache) {
+      return this.options.key ?? `livewire:computed:${component.getName()}:${this.method}`
+    }
 
-    return this.requestCachedValue
+    return null
   }
 
-  /** Bust request cache (PHP unset). */
-  clearCache(): void {
-    this.requestCachedValue = undefined
+  protected ttl(): number {
+    const duration = this.options.persist || this.options.cache
+
+    if (typeof duration === 'number') return duration * 1000
+    if (typeof duration === 'string') return string.milliseconds.parse(duration)
+
+    return 3600 * 1000
   }
 
   async render() {
-    if (typeof this.component[this.method] !== 'function') return
-    const value = await this.getValue()
-    this.component.view.share({
+    const component = this.component
+    if (typeof component[this.method] !== 'function') return
+    const value = await this.getValue(component)
+    component.view.share({
       [this.name]: value,
     })
   }
@@ -0,0 +1,26 @@
+import { BaseComponent } from '../../base_component.js'
+import { Constructor } from '../../types.js'
+import Computed from './computed.js'
+
+/** PHP parity: unset($this->posts) busts a computed property */
+export function HandlesComputed<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    /**
+     * Bust the value of a computed property, including the value persisted
+     * or cached across requests
+     *
+     * @example
+     * await this.unset('posts')
+     */
+    async unset(name: string): Promise<void> {
+      const decorators = (this as any).getDecorators() as unknown[]
+
+      for (const decorator of decorators) {
+        if (!(decorator instanceof Computed) || decorator.name !== name) continue
+
+        decorator.__boot(this as any)
+        await decorator.clearCache()
+      }
+    }
+  }
+}
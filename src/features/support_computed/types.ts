@@ -0,0 +1,22 @@
+/**
+ * Options of `@computed`. Durations are seconds, or expressions like
+ * `'10 minutes'`. `true` caches the value for an hour.
+ */
+export type ComputedOptions = {
+  /**
+   * Cache the value across the requests of a component instance
+   */
+  persist?: boolean | number | string
+  /**
+   * Cache the value across all the instances of the component
+   */
+  cache?: boolean | number | string
+  /**
+   * Cache key, defaults to the component and method names
+   */
+  key?: string
+  /**
+   * Cache tags, to bust the value with `cache.deleteByTag()`
+   */
+  tags?: string[]
+}
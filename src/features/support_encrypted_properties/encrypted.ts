@@ -0,0 +1,18 @@
+import { Decorator } from '../support_decorators/decorator.js'
+import { CannotUpdateLockedPropertyException } from '../support_locked_properties/cannot_update_locked_property_exception.js'
+
+/**
+ * Encrypts a property in the snapshot. The browser only sees the encrypted
+ * value, so the property is locked: it can only be changed on the server.
+ */
+export default class Encrypted extends Decorator {
+  constructor(public name: string) {
+    super()
+  }
+
+  async update(propertyName: string, __fullPath: string = propertyName, _newValue?: unknown) {
+    if (propertyName === this.name) {
+      throw new CannotUpdateLockedPropertyException(this.name)
+    }
+  }
+}
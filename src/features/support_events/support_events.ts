@@ -1,30 +1,24 @@
 import ComponentHook from '../../component_hook.js'
 import { store } from '../../store.js'
+import type { Component } from '../../component.js'
 
 export class SupportEvents extends ComponentHook {
-  async call(
-    method: string,
-    params: any[],
-    _returnEarly?: (value?: any) => void | boolean,
-    _metadata?: any,
-    _componentContext?: any
-  ) {
-    if (method === '__dispatch') {
-      let [name, args] = params
-      let ev = store(this.component)
-        .get('listeners')
-        .find((l) => l.name === name)
-
-      if (ev) {
-        await this.component[ev.event](args)
-      }
-
-      let ev2 = this.component.getListeners()[name]
-
-      if (!ev2) return
-
-      await this[ev2](args)
+  /**
+   * Methods listening to an event, from `@on` and `getListeners()`. They
+   * are called by `Livewire.callMethods` like any other action.
+   */
+  static getListenerMethods(component: Component, name: string): string[] {
+    const methods: string[] = store(component)
+      .get('listeners')
+      .filter((listener) => listener.name === name)
+      .map((listener) => listener.event)
+
+    const method = component.getListeners()[name]
+    if (method && !methods.includes(method)) {
+      methods.push(method)
     }
+
+    return methods
   }
 
   async dehydrate(context) {
@@ -0,0 +1,72 @@
+import { readFile } from 'node:fs/promises'
+import { basename } from 'node:path'
+import { BaseComponent } from '../../base_component.js'
+import { store } from '../../store.js'
+import { Constructor } from '../../types.js'
+
+/**
+ * Download encoded into `effects.download`, as read by the client script
+ */
+export interface FileDownload {
+  name: string
+  content: string
+  contentType: string | null
+}
+
+type DownloadChunk = string | Buffer | Uint8Array
+
+/** PHP parity: returning response()->download() / streamDownload() from an action */
+export function HandlesFileDownloads<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    /**
+     * Send a file to the browser. Strings are read from disk, buffers are
+     * sent as is and require a filename.
+     */
+    async download(
+      file: string | Buffer | Uint8Array,
+      filename?: string,
+      headers: Record<string, string> = {}
+    ) {
+      const name = filename ?? (typeof file === 'string' ? basename(file) : undefined)
+      if (!name) {
+        throw new Error('A filename is required when downloading a buffer')
+      }
+
+      const content = typeof file === 'string' ? await readFile(file) : file
+
+      this.#storeDownload(name, Buffer.from(content), headers)
+    }
+
+    /**
+     * Send content written by the callback to the browser as a file
+     *
+     * @example
+     * await this.streamDownload(async (write) => {
+     *   write('id,name\n')
+     *   for (const user of users) write(`${user.id},${user.name}\n`)
+     * }, 'users.csv')
+     */
+    async streamDownload(
+      callback: (write: (chunk: DownloadChunk) => void) => void | Promise<void>,
+      filename: string,
+      headers: Record<string, string> = {}
+    ) {
+      const chunks: Buffer[] = []
+      await callback((chunk) => chunks.push(Buffer.from(chunk)))
+
+      this.#storeDownload(filename, Buffer.concat(chunks), headers)
+    }
+
+    #storeDownload(name: string, content: Buffer, headers: Record<string, string>) {
+      const contentType = Object.entries(headers).find(
+        ([header]) => header.toLowerCase() === 'content-type'
+      )?.[1]
+
+      store(this).set('download', {
+        name,
+        content: content.toString('base64'),
+        contentType: contentType ?? null,
+      } satisfies FileDownload)
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import ComponentHook from '../../component_hook.js'
+import { store } from '../../store.js'
+
+export class SupportFileDownloads extends ComponentHook {
+  async dehydrate(context: { addEffect: (k: string, v: any) => void }) {
+    const s = store(this.component)
+    if (!s.has('download')) return
+
+    context.addEffect('download', s.get('download'))
+  }
+}
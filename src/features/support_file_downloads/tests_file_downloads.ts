@@ -0,0 +1,99 @@
+import { AssertionError } from 'node:assert'
+import { Constructor } from '../../types.js'
+import { BaseTestable } from '../support_testing/base_testable.js'
+
+/**
+ * Provides file download assertion methods for testing components
+ * Equivalent to PHP's file download assertions in Testable
+ */
+export function TestsFileDownloads<TConstructor extends Constructor<BaseTestable>>(
+  Base: TConstructor
+) {
+  return class extends Base {
+    /**
+     * Assert that the component triggered a file download
+     *
+     * @param filename - Optional expected filename
+     * @param content - Optional expected file content
+     * @param contentType - Optional expected content type
+     *
+     * @example
+     * test.assertFileDownloaded()
+     * test.assertFileDownloaded('users.csv', 'id,name\n', 'text/csv')
+     */
+    assertFileDownloaded(filename?: string, content?: string, contentType?: string): this {
+      const download = this.state.getEffects().download
+
+      if (!download) {
+        throw new AssertionError({
+          message: 'Failed asserting that a file was downloaded.',
+          actual: undefined,
+          expected: 'download effect',
+          operator: 'fileDownloaded',
+        })
+      }
+
+      if (filename !== undefined && download.name !== filename) {
+        throw new AssertionError({
+          message: `Failed asserting that the downloaded file name [${download.name}] matches [${filename}].`,
+          actual: download.name,
+          expected: filename,
+          operator: 'fileDownloaded',
+        })
+      }
+
+      if (content !== undefined) {
+        const actual = Buffer.from(download.content, 'base64').toString()
+
+        if (actual !== content) {
+          throw new AssertionError({
+            message: 'Failed asserting that the downloaded file content matches.',
+            actual,
+            expected: content,
+            operator: 'fileDownloaded',
+          })
+        }
+      }
+
+      if (contentType !== undefined && download.contentType !== contentType) {
+        throw new AssertionError({
+          message: `Failed asserting that the downloaded content type [${download.contentType}] matches [${contentType}].`,
+          actual: download.contentType,
+          expected: contentType,
+          operator: 'fileDownloaded',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that the component did not trigger a file download
+     *
+     * @example
+     * test.assertNoFileDownloaded()
+     */
+    assertNoFileDownloaded(): this {
+      const download = this.state.getEffects().download
+
+      if (download) {
+        throw new AssertionError({
+          message: `Failed asserting that no file was downloaded, got [${download.name}].`,
+          actual: download.name,
+          expected: 'no download effect',
+          operator: 'noFileDownloaded',
+        })
+      }
+
+      return this
+    }
+  }
+}
+
+/**
+ * Interface for type safety when using TestsFileDownloads mixin
+ */
+export interface TestsFileDownloads {
+  assertFileDownloaded(filename?: string, content?: string, contentType?: string): this
+  assertNoFileDownloaded(): this
+}
@@ -0,0 +1,41 @@
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig, type Config } from '../../define_config.js'
+import { LocalUploadDisk } from './local_upload_disk.js'
+
+/**
+ * Resolved settings for temporary file uploads
+ * PHP parity: FileUploadConfiguration
+ */
+export class FileUploadConfiguration {
+  static config: Config['temporaryFileUpload'] = defaultConfig.temporaryFileUpload
+
+  static disk: LocalUploadDisk = new LocalUploadDisk(join(tmpdir(), 'livewire-tmp'))
+
+  /**
+   * Route name of the signed upload endpoint
+   */
+  static routeName = 'livewire.upload-file'
+
+  /**
+   * Purpose embedded in the signed upload url
+   */
+  static signaturePurpose = 'livewire-upload'
+
+  static configure(config: Config['temporaryFileUpload'], directory: string) {
+    this.config = config
+    this.disk = new LocalUploadDisk(config.directory ?? directory)
+  }
+
+  static rules() {
+    return this.config.rules
+  }
+
+  static maxUploadTime() {
+    return this.config.maxUploadTime
+  }
+
+  static shouldCleanupOldUploads() {
+    return this.config.cleanup
+  }
+}
@@ -0,0 +1,65 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { MultipartFile } from '@adonisjs/core/bodyparser'
+import { VineMultipartFile } from '@adonisjs/core/vine'
+import vine from '@vinejs/vine'
+import debug from '../../debug.js'
+import { FileUploadConfiguration } from './file_upload_configuration.js'
+import { TemporaryUploadedFile } from './temporary_uploaded_file.js'
+
+/**
+ * Handles `POST /livewire/upload-file`
+ * PHP parity: FileUploadController
+ *
+ * Validates the files against `temporaryFileUpload.rules`, moves them into
+ * the temporary upload directory and returns their names. The client then
+ * calls `_finishUpload` with those names.
+ */
+export class FileUploadController {
+  async handle(ctx: HttpContext) {
+    if (!ctx.request.hasValidSignature(FileUploadConfiguration.signaturePurpose)) {
+      debug('upload rejected: invalid signature')
+      return ctx.response.unauthorized({ message: 'Invalid upload signature' })
+    }
+
+    const files = ctx.request.files('files')
+
+    try {
+      await this.validate(files)
+    } catch (error: any) {
+      if (error.code !== 'E_VALIDATION_ERROR') throw error
+
+      debug('upload rejected: %O', error.messages)
+      return ctx.response.unprocessableEntity({ errors: this.groupErrors(error.messages) })
+    }
+
+    const paths: string[] = []
+    for (const file of files) {
+      const filename = TemporaryUploadedFile.generateHashNameWithOriginalNameEmbedded(file)
+      await FileUploadConfiguration.disk.put(filename, file)
+      paths.push(filename)
+    }
+
+    return { paths }
+  }
+
+  protected async validate(files: MultipartFile[]) {
+    const schema = vine.object({
+      files: vine.array(new VineMultipartFile(FileUploadConfiguration.rules())).minLength(1),
+    })
+
+    await vine.validate({ schema, data: { files } })
+  }
+
+  /**
+   * Vine reports a flat list, the client expects `{ 'files.0': [...] }`
+   */
+  protected groupErrors(messages: { field: string; message: string }[]) {
+    const errors: Record<string, string[]> = {}
+
+    for (const { field, message } of messages) {
+      errors[field] = [...(errors[field] ?? []), message]
+    }
+
+    return errors
+  }
+}
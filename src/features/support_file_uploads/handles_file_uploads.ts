@@ -0,0 +1,114 @@
+import { BaseComponent } from '../../base_component.js'
+import { getLivewireContext } from '../../store.js'
+import ComponentContext from '../../component_context.js'
+import { Constructor } from '../../types.js'
+import { FileUploadConfiguration } from './file_upload_configuration.js'
+import { TemporaryUploadedFile } from './temporary_uploaded_file.js'
+
+/**
+ * File details sent by the client before an upload starts
+ */
+export type UploadFileInfo = { name: string; size: number; type: string }
+
+/**
+ * PHP parity: WithFileUploads. Backs `$wire.$upload()`, `$uploadMultiple()`,
+ * `$removeUpload()` and `wire:model` on file inputs
+ */
+export function HandlesFileUploads<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    /**
+     * Hand the client a signed url to post the files to
+     */
+    async _startUpload(name: string, _fileInfo: UploadFileInfo[], _isMultiple: boolean) {
+      const router = this.__getRouter()
+      if (!router.commited) router.commit()
+
+      const url = router.makeSignedUrl(
+        FileUploadConfiguration.routeName,
+        {},
+        {
+          expiresIn: FileUploadConfiguration.maxUploadTime(),
+          purpose: FileUploadConfiguration.signaturePurpose,
+        }
+      )
+
+      this.#dispatchSelf('upload:generatedSignedUrl', { name, url })
+    }
+
+    async _finishUpload(name: string, tmpPaths: string[], isMultiple: boolean, append = true) {
+      if (FileUploadConfiguration.shouldCleanupOldUploads()) {
+        await FileUploadConfiguration.disk.cleanup()
+      }
+
+      const files = tmpPaths.map((path) => TemporaryUploadedFile.createFromLivewire(path))
+      const current = (this as any)[name]
+
+      this.#dispatchSelf('upload:finished', {
+        name,
+        tmpFilenames: files.map((file) => file.filename),
+      })
+
+      let value: TemporaryUploadedFile | TemporaryUploadedFile[] = isMultiple ? files : files[0]
+      if (Array.isArray(current) && (!isMultiple || append)) {
+        value = [...current, ...files]
+      }
+
+      await this.#syncInput(name, value)
+    }
+
+    async _uploadErrored(name: string, errorsInJson: string | null, isMultiple: boolean) {
+      this.#dispatchSelf('upload:errored', { name })
+
+      const component = this as any
+
+      if (!errorsInJson) {
+        component.addError(name, `The ${name} failed to upload.`)
+        return
+      }
+
+      const errors: Record<string, string[]> = JSON.parse(errorsInJson).errors ?? {}
+
+      for (const [field, messages] of Object.entries(errors)) {
+        const key = isMultiple ? field.replace(/^files/, name) : field.replace(/^files\.0/, name)
+
+        for (const message of messages) {
+          component.addError(key, message)
+        }
+      }
+    }
+
+    async _removeUpload(name: string, tmpFilename: string) {
+      const uploads = (this as any)[name]
+
+      if (Array.isArray(uploads) && uploads[0] instanceof TemporaryUploadedFile) {
+        this.#dispatchSelf('upload:removed', { name, tmpFilename })
+
+        await this.#syncInput(
+          name,
+          uploads.filter((upload: TemporaryUploadedFile) => upload.filename !== tmpFilename)
+        )
+      } else if (uploads instanceof TemporaryUploadedFile && uploads.filename === tmpFilename) {
+        await uploads.delete()
+        this.#dispatchSelf('upload:removed', { name, tmpFilename })
+
+        await this.#syncInput(name, null)
+      }
+    }
+
+    #dispatchSelf(name: string, params: Record<string, any>) {
+      ;(this as any).dispatch(name, params, undefined, true)
+    }
+
+    /**
+     * Update the property like the browser would, so locked props are
+     * rejected and `@validator` rules and `updated` hooks run against the
+     * new files
+     */
+    async #syncInput(name: string, value: any) {
+      const livewire = await this.app.container.make('livewire')
+      const context = getLivewireContext()?.context ?? new ComponentContext(this as any)
+
+      await livewire.updateProperty(this as any, name, value, context)
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { existsSync, statSync } from 'node:fs'
+import { mkdir, readdir, stat, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { MultipartFile } from '@adonisjs/core/bodyparser'
+import debug from '../../debug.js'
+
+/**
+ * Stores temporary uploads on the local filesystem
+ *
+ * Uploaded files are moved into `root` until the component decides
+ * what to do with them. Works without any storage service, which also
+ * makes it the disk used in tests.
+ */
+export class LocalUploadDisk {
+  constructor(public root: string) {}
+
+  /**
+   * Absolute path of a temporary file
+   */
+  path(filename: string): string {
+    return join(this.root, filename)
+  }
+
+  /**
+   * Move an uploaded file into the temporary directory
+   */
+  async put(filename: string, file: MultipartFile): Promise<void> {
+    await mkdir(this.root, { recursive: true })
+    await file.move(this.root, { name: filename, overwrite: true })
+    debug('stored temporary upload %s', filename)
+  }
+
+  exists(filename: string): boolean {
+    return existsSync(this.path(filename))
+  }
+
+  size(filename: string): number {
+    return this.exists(filename) ? statSync(this.path(filename)).size : 0
+  }
+
+  async delete(filename: string): Promise<void> {
+    if (this.exists(filename)) {
+      await unlink(this.path(filename))
+    }
+  }
+
+  /**
+   * Remove temporary files last modified more than `maxAge` milliseconds ago
+   * PHP parity: WithFileUploads::cleanupOldUploads
+   */
+  async cleanup(maxAge: number = 24 * 60 * 60 * 1000): Promise<string[]> {
+    if (!existsSync(this.root)) {
+      return []
+    }
+
+    const removed: string[] = []
+    const threshold = Date.now() - maxAge
+
+    for (const filename of await readdir(this.root)) {
+      const stats = await stat(this.path(filename))
+
+      if (stats.isFile() && stats.mtimeMs < threshold) {
+        await unlink(this.path(filename))
+        removed.push(filename)
+      }
+    }
+
+    debug('removed %d stale temporary uploads', removed.length)
+    return removed
+  }
+}
@@ -0,0 +1,22 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+import ComponentHook from '../../component_hook.js'
+import { defaultConfig, type Config } from '../../define_config.js'
+import { FileUploadConfiguration } from './file_upload_configuration.js'
+
+/**
+ * Feature to support file uploads
+ * PHP parity: SupportFileUploads
+ *
+ * The upload itself is handled by the `HandlesFileUploads` mixin and the
+ * `/livewire/upload-file` route, this only resolves the configuration.
+ */
+export class SupportFileUploads extends ComponentHook {
+  static async provide(app: ApplicationService) {
+    const config = app.config.get<Config>('livewire', defaultConfig)
+
+    FileUploadConfiguration.configure(
+      { ...defaultConfig.temporaryFileUpload, ...config.temporaryFileUpload },
+      app.tmpPath('livewire-tmp')
+    )
+  }
+}
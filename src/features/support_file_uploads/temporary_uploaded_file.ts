@@ -0,0 +1,88 @@
+import { extname } from 'node:path'
+import string from '@adonisjs/core/helpers/string'
+import { MultipartFile } from '@adonisjs/core/bodyparser'
+import { FileUploadConfiguration } from './file_upload_configuration.js'
+import type { LocalUploadDisk } from './local_upload_disk.js'
+
+/**
+ * A file uploaded by the client and kept in the temporary upload
+ * directory until the component stores it
+ *
+ * PHP parity: TemporaryUploadedFile
+ *
+ * Extends the bodyparser MultipartFile, so `move()`, `size`, `extname`
+ * and vine's `vine.file()` rules work the same as for regular uploads.
+ */
+export class TemporaryUploadedFile extends MultipartFile {
+  /**
+   * Name of the file inside the temporary directory
+   */
+  filename: string
+
+  constructor(
+    filename: string,
+    protected disk: LocalUploadDisk = FileUploadConfiguration.disk
+  ) {
+    super(
+      {
+        fieldName: '',
+        clientName: TemporaryUploadedFile.extractOriginalNameFromFilePath(filename),
+        headers: {},
+      },
+      {}
+    )
+
+    this.filename = filename
+    this.tmpPath = disk.path(filename)
+    this.size = disk.size(filename)
+    this.extname = extname(filename).replace(/^\./, '') || undefined
+    this.state = 'consumed'
+  }
+
+  /**
+   * Whether the file is still in the temporary directory
+   */
+  exists(): boolean {
+    return this.disk.exists(this.filename)
+  }
+
+  async delete(): Promise<void> {
+    await this.disk.delete(this.filename)
+  }
+
+  serializeForLivewireResponse(): string {
+    return `livewire-file:${this.filename}`
+  }
+
+  static canUnserialize(subject: unknown): subject is string {
+    return typeof subject === 'string' && subject.startsWith('livewire-file:')
+  }
+
+  static unserializeFromLivewireRequest(subject: string): TemporaryUploadedFile {
+    return TemporaryUploadedFile.createFromLivewire(subject.replace(/^livewire-file:/, ''))
+  }
+
+  /**
+   * Only the basename is used, so a client can't point outside the temporary directory
+   */
+  static createFromLivewire(filePath: string): TemporaryUploadedFile {
+    return new TemporaryUploadedFile(filePath.split(/[\\/]/).pop()!)
+  }
+
+  /**
+   * Random name that keeps the client name recoverable:
+   * `<hash>-meta<base64 name>-.<ext>`
+   */
+  static generateHashNameWithOriginalNameEmbedded(file: MultipartFile): string {
+    const hash = string.generateRandom(30)
+    const meta = `-meta${Buffer.from(file.clientName).toString('base64').replaceAll('/', '_')}-`
+    const extension = file.extname ? `.${file.extname}` : ''
+
+    return `${hash}${meta}${extension}`
+  }
+
+  static extractOriginalNameFromFilePath(filePath: string): string {
+    const meta = filePath.split('-meta').pop()!.split('-')[0]
+    return Buffer.from(meta.replaceAll('_', '/'), 'base64').toString()
+  }
+}
@@ -0,0 +1,14 @@
+import { BaseComponent } from '../../base_component.js'
+import { store } from '../../store.js'
+import { Constructor } from '../../types.js'
+import { SupportIslands, type IslandMode } from './support_islands.js'
+
+/** PHP parity: renderIsland($name, $mode) sends only the island HTML back */
+export function HandlesIslands<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    renderIsland(name: string, mode: IslandMode = 'morph') {
+      SupportIslands.requestIsland(this, name, mode)
+      store(this).set('renderIslandsOnly', true)
+    }
+  }
+}
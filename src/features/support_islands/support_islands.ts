@@ -0,0 +1,154 @@
+import { createHash } from 'node:crypto'
+import ComponentHook from '../../component_hook.js'
+import type { Component } from '../../component.js'
+import type { BaseComponent } from '../../base_component.js'
+import type Livewire from '../../livewire.js'
+import { getLivewireContext, store } from '../../store.js'
+import { insertAttributesIntoHtmlRoot } from '../../utils/html.js'
+import debug from '../../debug.js'
+
+export type IslandMode = 'morph' | 'append' | 'prepend'
+
+/**
+ * Options accepted by the `@island` tag
+ */
+export interface IslandOptions {
+  /**
+   * Render a placeholder and load the island once it enters the viewport
+   */
+  lazy?: boolean
+  /**
+   * Render a placeholder and load the island right after the page loads
+   */
+  defer?: boolean
+  /**
+   * HTML rendered in place of a lazy/deferred island until it is loaded
+   */
+  placeholder?: string
+}
+
+/**
+ * Island state kept in `memo.islands`, keyed by island name
+ */
+export interface IslandMemo {
+  token: string
+  loaded: boolean
+}
+
+/**
+ * PHP parity: SupportIslands. Islands are regions of a component template
+ * wrapped in fragment markers, that can be re-rendered on their own. Actions
+ * fired from inside an island (or through `wire:island` / `$wire.$island()`)
+ * only send the island HTML back in `effects.islandFragments`.
+ */
+export class SupportIslands extends ComponentHook {
+  async hydrate(memo: Record<string, any>) {
+    store(this.component).set('previousIslands', memo.islands ?? {})
+  }
+
+  async call(
+    _method: string,
+    _params: any[],
+    _returnEarly?: (value?: any) => void,
+    metadata?: { island?: { name: string; mode?: IslandMode } }
+  ) {
+    if (!metadata?.island) {
+      store(this.component).set('hasComponentCall', true)
+      return
+    }
+
+    SupportIslands.requestIsland(this.component, metadata.island.name, metadata.island.mode)
+  }
+
+  async dehydrate(context: {
+    addEffect: (k: string, v: unknown) => void
+    effects: Record<string, any>
+  }) {
+    const s = store(this.component)
+    if (s.get('islandRequests').length === 0) return
+
+    debug('SupportIslands.dehydrate: fragments=%d', s.get('islandFragments').length)
+    context.addEffect('islandFragments', s.get('islandFragments'))
+
+    if (s.get('hasComponentCall') === true && !s.has('renderIslandsOnly')) return
+
+    delete context.effects.html
+  }
+
+  /**
+   * Mark an island to be sent back in `effects.islandFragments`
+   */
+  static requestIsland(
+    component: Component | BaseComponent,
+    name: string,
+    mode: IslandMode = 'morph'
+  ) {
+    store(component).push('islandRequests', { name, mode })
+  }
+
+  /**
+   * Render an island while the component template is rendered. Called by
+   * the `@island` tag with a callback rendering the island contents.
+   */
+  static async renderIsland(
+    livewire: Livewire,
+    component: Component,
+    name: string,
+    options: IslandOptions,
+    render: () => Promise<string>
+  ): Promise<string> {
+    const s = store(component)
+    const previous: IslandMemo | undefined = s.get('previousIslands')?.[name]
+    const request = s.get('islandRequests').find((r: { name: string }) => r.name === name)
+    const token = SupportIslands.generateToken(component, name)
+
+    const isLazy = !!(options.lazy || options.defer)
+    const loaded = !isLazy || previous?.loaded === true || request !== undefined
+
+    let content = loaded ? await render() : SupportIslands.placeholder(name, options)
+
+    const finish = await livewire.trigger('renderIsland', component, name, content)
+    for (const callback of finish) {
+      await callback(content, (newContent: string) => {
+        content = newContent
+      })
+    }
+
+    getLivewireContext()?.context.pushMemo('islands', { token, loaded }, name)
+
+    if (request) {
+      s.push('islandFragments', SupportIslands.wrap(content, name, token, request.mode))
+    }
+
+    return SupportIslands.wrap(content, name, token, 'morph')
+  }
+
+  /**
+   * Token identifying the island inside the component element. Includes the
+   * component id, so nested components can use the same island names.
+   */
+  static generateToken(component: Component, name: string) {
+    return createHash('md5').update(`${component.getId()}:${name}`).digest('hex').slice(0, 8)
+  }
+
+  /**
+   * Wrap island contents in the fragment markers read by the client script
+   */
+  static wrap(content: string, name: string, token: string, mode: IslandMode) {
+    const metadata = `type=island|name=${name}|token=${token}|mode=${mode}`
+
+    return (
+      `<!--[if FRAGMENT:${metadata}]><![endif]-->` +
+      content +
+      `<!--[if ENDFRAGMENT:${metadata}]><![endif]-->`
+    )
+  }
+
+  static placeholder(name: string, options: IslandOptions) {
+    const directive = options.defer ? 'x-init' : 'x-intersect'
+
+    return insertAttributesIntoHtmlRoot(options.placeholder ?? '<div></div>', {
+      [directive]: `$wire.$island('${name}')`,
+    })
+  }
+}
@@ -0,0 +1,26 @@
+import ComponentContext from '../../component_context.js'
+import { store } from '../../store.js'
+import { Decorator } from '../support_decorators/decorator.js'
+
+/**
+ * Js decorator for methods
+ *
+ * The method returns a JavaScript expression, which replaces the method on
+ * `$wire` so calling it runs on the client without a server round trip.
+ * The client keeps the replaced method, so it is only evaluated on mount
+ * and shipped by `SupportJsEvaluation` along with the `js()` expressions.
+ * PHP parity: #[Js]
+ */
+export default class Js extends Decorator {
+  constructor(public method: string) {
+    super()
+  }
+
+  async dehydrate(context: ComponentContext) {
+    if (!context.mounting) return
+
+    const expression = await (this.component as any)[this.method]()
+
+    store(this.component).push('jsMethods', expression, this.method)
+  }
+}
@@ -4,6 +4,11 @@ import debug from '../../debug.js'
 
 export class SupportJsEvaluation extends ComponentHook {
   async dehydrate(context: { addEffect: (k: string, v: unknown) => void }) {
+    // Bodies of the `@js` methods, evaluated on mount
+    if (store(this.component).has('jsMethods')) {
+      context.addEffect('js', store(this.component).get('jsMethods'))
+    }
+
     if (!store(this.component).has('js')) return
 
     const jsData = store(this.component).get('js')
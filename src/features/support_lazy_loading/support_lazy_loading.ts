@@ -3,6 +3,7 @@ import { getLivewireContext, store } from '../../store.js'
 import Lazy from './lazy.js'
 import Defer from './defer.js'
 import { base64 } from '../../utils/encoding.js'
+import { resolveBinding } from '../../utils/bindings.js'
 
 export class SupportLazyLoading extends ComponentHook {
   static disableWhileTesting = false
@@ -165,24 +166,10 @@ export class SupportLazyLoading extends ComponentHook {
     if (typeof component['mount'] === 'function') {
       const resolvedParams = [params]
 
-      const isResourceModel = (value: any) => {
-        if (!value) return false
-        return (
-          typeof value['findForRequest'] === 'function' ||
-          typeof value['findOrFail'] === 'function' ||
-          typeof value['findRelatedForRequest'] === 'function'
-        )
-      }
-
       if (component['bindings'] && component['bindings']['mount']) {
         for (let index = 1; index < component['bindings']['mount'].length; index++) {
           const binding = component['bindings']['mount'][index]
-
-          if (isResourceModel(binding.type)) {
-            resolvedParams.push(await binding.type.findOrFail(params[binding.name]))
-          } else {
-            resolvedParams.push(params[binding.name])
-          }
+          resolvedParams.push(await resolveBinding(component.app, binding, params[binding.name]))
         }
       }
 
@@ -0,0 +1,143 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import ComponentHook from '../../component_hook.js'
+import ComponentContext from '../../component_context.js'
+import { Component } from '../../component.js'
+import { store } from '../../store.js'
+
+/**
+ * Child entry stored in `memo.children`: `{ [key]: [tag, id] }`
+ */
+export type ChildMemo = [tag: string, id: string]
+
+/**
+ * Ids of the children their parent stopped rendering, per request
+ */
+const removedChildren = new WeakMap<HttpContext, Set<string>>()
+
+/**
+ * Feature to keep track of components rendered inside other components
+ *
+ * PHP parity: SupportNestingComponents
+ *
+ * While a parent renders, every nested `@livewire`/`<livewire:...>` records
+ * its key, root tag and id in the parent's store. Those end up in
+ * `memo.children`, so on the next update the parent can emit a bare
+ * `<tag wire:id="...">` placeholder for children that already exist on the
+ * page instead of mounting them again (the client keeps their DOM and state).
+ *
+ * Children from the previous request the parent doesn't render anymore are
+ * gone from the page. The client sends children with reactive props or
+ * `wire:modelable` bindings along with their parent, so when they come
+ * next in the request they are marked as removed instead of rendered.
+ */
+export class SupportNestingComponents extends ComponentHook {
+  async hydrate(memo: Record<string, any>) {
+    const children = memo?.children
+    store(this.component).set(
+      'previousChildren',
+      children && !Array.isArray(children) ? { ...children } : {}
+    )
+  }
+
+  async dehydrate(context: ComponentContext) {
+    let skipRender = store(this.component).get('skipRender')
+    skipRender = Array.isArray(skipRender) ? skipRender[0] : skipRender
+
+    if (store(this.component).has('removed')) {
+      // Children of a removed component are gone from the page with it
+      SupportNestingComponents.removeChildren(
+        this.component,
+        Object.values(SupportNestingComponents.getPreviousChildren(this.component))
+      )
+    } else if (!skipRender) {
+      const rendered = Object.values(SupportNestingComponents.getChildren(this.component))
+
+      SupportNestingComponents.removeChildren(
+        this.component,
+        Object.values(SupportNestingComponents.getPreviousChildren(this.component)).filter(
+          ([, id]) => !rendered.some(([, renderedId]) => renderedId === id)
+        )
+      )
+    }
+
+    // Nothing was rendered, so every child from the previous request is still on the page
+    if (skipRender) {
+      SupportNestingComponents.keepRenderedChildren(this.component)
+    }
+
+    context.addMemo('children', SupportNestingComponents.getChildren(this.component))
+  }
+
+  static getChildren(component: Component): Record<string, ChildMemo> {
+    const s = store(component)
+    return s.has('children') ? s.get('children') : {}
+  }
+
+  static setParentChild(parent: Component, key: string, tag: string, childId: string) {
+    store(parent).set('children', {
+      ...SupportNestingComponents.getChildren(parent),
+      [key]: [tag, childId],
+    })
+  }
+
+  static getPreviousChildren(component: Component): Record<string, ChildMemo> {
+    const s = store(component)
+    return s.has('previousChildren') ? s.get('previousChildren') : {}
+  }
+
+  static hasPreviouslyRenderedChild(parent: Component, key: string): boolean {
+    return key in SupportNestingComponents.getPreviousChildren(parent)
+  }
+
+  static getPreviouslyRenderedChild(parent: Component, key: string): ChildMemo {
+    return SupportNestingComponents.getPreviousChildren(parent)[key]
+  }
+
+  static removeChildren(parent: Component, children: ChildMemo[]) {
+    if (children.length === 0) return
+
+    const removed = removedChildren.get(parent.ctx) ?? new Set()
+    for (const [, id] of children) removed.add(id)
+
+    removedChildren.set(parent.ctx, removed)
+  }
+
+  /**
+   * Whether the parent of the component stopped rendering it earlier in
+   * the request
+   */
+  static isRemoved(component: Component): boolean {
+    return removedChildren.get(component.ctx)?.has(component.getId()) ?? false
+  }
+
+  static keepRenderedChildren(component: Component) {
+    store(component).set('children', {
+      ...SupportNestingComponents.getPreviousChildren(component),
+      ...SupportNestingComponents.getChildren(component),
+    })
+  }
+
+  /**
+   * Turn the compile-time key of a `@livewire` tag into a key that is unique
+   * within the parent render, so the same tag used inside a loop without
+   * `wire:key` still maps to distinct children
+   */
+  static generateKey(parent: Component, deterministicKey: string): string {
+    const s = store(parent)
+    const occurrences: Record<string, number> = s.has('childKeyOccurrences')
+      ? s.get('childKeyOccurrences')
+      : {}
+
+    const index = occurrences[deterministicKey] ?? 0
+    s.set('childKeyOccurrences', { ...occurrences, [deterministicKey]: index + 1 })
+
+    return `${deterministicKey}-${index}`
+  }
+
+  /**
+   * Root tag name of the rendered html
+   */
+  static extractTagName(html: string): string {
+    return html.match(/<([a-zA-Z0-9\-]+)/)?.[1] ?? 'div'
+  }
+}
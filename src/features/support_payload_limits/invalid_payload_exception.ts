@@ -0,0 +1,12 @@
+import { Exception } from '@adonisjs/core/exceptions'
+
+/** Raised when the body of a Livewire update request is not shaped like the client sends it */
+export class InvalidPayloadException extends Exception {
+  static status = 400
+  static code = 'E_LIVEWIRE_INVALID_PAYLOAD'
+
+  constructor(reason: string) {
+    super(`Invalid Livewire request payload: ${reason}`)
+    this.name = 'InvalidPayloadException'
+  }
+}
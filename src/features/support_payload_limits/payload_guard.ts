@@ -0,0 +1,115 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { Config } from '../../define_config.js'
+import debug from '../../debug.js'
+import { InvalidPayloadException } from './invalid_payload_exception.js'
+import { PayloadTooLargeException } from './payload_too_large_exception.js'
+import { TooManyComponentsException } from './too_many_components_exception.js'
+
+/**
+ * Guards the `/livewire/update` endpoint against oversized requests.
+ *
+ * Runs before any snapshot is parsed, so a malicious client cannot make
+ * the server do checksum/hydration work for payloads outside the
+ * configured `limits`.
+ */
+export class PayloadGuard {
+  constructor(protected limits: Config['limits']) {}
+
+  /**
+   * Size of the request body in bytes. Prefers the raw body captured by the
+   * bodyparser and falls back to the `content-length` header.
+   */
+  payloadSize(ctx: HttpContext): number {
+    const raw = ctx.request.raw()
+    if (raw !== null) {
+      return Buffer.byteLength(raw)
+    }
+
+    const contentLength = Number(ctx.request.header('content-length'))
+    return Number.isNaN(contentLength) ? 0 : contentLength
+  }
+
+  /**
+   * Throw when the request body exceeds `limits.maxSize`
+   */
+  validateSize(ctx: HttpContext) {
+    const size = this.payloadSize(ctx)
+    debug('PayloadGuard: payload size=%d maxSize=%d', size, this.limits.maxSize)
+
+    if (size > this.limits.maxSize) {
+      throw new PayloadTooLargeException(size, this.limits.maxSize)
+    }
+  }
+
+  /**
+   * Throw when the request holds more than `limits.maxComponents` components
+   */
+  validateComponents(components: unknown[]) {
+    debug(
+      'PayloadGuard: components=%d maxComponents=%d',
+      components.length,
+      this.limits.maxComponents
+    )
+
+    if (components.length > this.limits.maxComponents) {
+      throw new TooManyComponentsException(components.length, this.limits.maxComponents)
+    }
+  }
+
+  /**
+   * Throw when the components are not shaped like the client sends them:
+   * `{ snapshot: string, updates: object, calls: { method, params }[] }`
+   */
+  validateShape(components: unknown): asserts components is any[] {
+    if (!Array.isArray(components)) {
+      throw new InvalidPayloadException('components must be an array')
+    }
+
+    for (const [index, component] of components.entries()) {
+      if (!isPlainObject(component)) {
+        throw new InvalidPayloadException(`components.${index} must be an object`)
+      }
+
+      if (typeof component.snapshot !== 'string') {
+        throw new InvalidPayloadException(`components.${index}.snapshot must be a string`)
+      }
+
+      if (!isPlainObject(component.updates)) {
+        throw new InvalidPayloadException(`components.${index}.updates must be an object`)
+      }
+
+      if (!Array.isArray(component.calls)) {
+        throw new InvalidPayloadException(`components.${index}.calls must be an array`)
+      }
+
+      for (const [callIndex, call] of component.calls.entries()) {
+        if (
+          !isPlainObject(call) ||
+          typeof call.method !== 'string' ||
+          !Array.isArray(call.params)
+        ) {
+          throw new InvalidPayloadException(
+            `components.${index}.calls.${callIndex} must have a method and params`
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate the whole update request and return its components
+   */
+  validate(ctx: HttpContext): any[] {
+    this.validateSize(ctx)
+
+    const components = ctx.request.input('components', [])
+    this.validateShape(components)
+    this.validateComponents(components)
+
+    return components
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,14 @@
+import { Exception } from '@adonisjs/core/exceptions'
+
+/** PHP parity: PayloadTooLargeException */
+export class PayloadTooLargeException extends Exception {
+  static status = 413
+  static code = 'E_LIVEWIRE_PAYLOAD_TOO_LARGE'
+
+  constructor(size: number, maxSize: number) {
+    super(
+      `Livewire request payload is too large. Maximum allowed: ${maxSize} bytes, received: ${size}`
+    )
+    this.name = 'PayloadTooLargeException'
+  }
+}
@@ -0,0 +1,14 @@
+import { Exception } from '@adonisjs/core/exceptions'
+
+/** PHP parity: TooManyComponentsException */
+export class TooManyComponentsException extends Exception {
+  static status = 422
+  static code = 'E_LIVEWIRE_TOO_MANY_COMPONENTS'
+
+  constructor(count: number, maxComponents: number) {
+    super(
+      `Too many components in a single Livewire request. Maximum allowed: ${maxComponents}, received: ${count}`
+    )
+    this.name = 'TooManyComponentsException'
+  }
+}
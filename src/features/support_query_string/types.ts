@@ -0,0 +1,27 @@
+/**
+ * Options of `@url`
+ */
+export type UrlOptions = {
+  /**
+   * Name of the query string parameter, defaults to the property name
+   */
+  as?: string | null
+  /**
+   * Push a new history entry when the property changes, instead of
+   * replacing the current one
+   */
+  history?: boolean
+  /**
+   * Keep the parameter in the query string when it has its initial value
+   */
+  keep?: boolean
+  /**
+   * Value for which the parameter is removed from the query string. The
+   * client compares it with the property as JSON.
+   */
+  except?: unknown
+  /**
+   * Keep `null` values, instead of casting them to empty strings
+   */
+  nullable?: boolean | null
+}
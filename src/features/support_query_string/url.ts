@@ -1,5 +1,7 @@
-import { randomUUID } from 'node:crypto'
+import 'reflect-metadata'
 import ComponentContext from '../../component_context.js'
+import { DateSynth } from '../../synthesizers/date.js'
+import { resolveBinding } from '../../utils/bindings.js'
 import { Decorator } from '../support_decorators/decorator.js'
 
 export default class Url extends Decorator {
@@ -8,28 +10,28 @@ export default class Url extends Decorator {
     public as: string | null = null,
     public history = false,
     public keep = false,
-    public except: string[] | null = null,
+    public except: unknown = null,
     public nullable: boolean | null = null
   ) {
     super()
   }
 
   async mount() {
-    let nonExistentValue = 'livewire:' + randomUUID()
-    let value: any
+    const queryString = this.component.ctx.request.qs()
+    const key = this.as || this.name
 
-    let initialValue = this.component.ctx.request.input(this.name, nonExistentValue)
-    if (initialValue === nonExistentValue) {
+    if (!(key in queryString)) {
       return
     }
 
+    const initialValue = queryString[key]
+
     if (initialValue === null) {
-      value = this.nullable ? null : ''
-    } else {
-      value = initialValue
+      this.component[this.name] = this.nullable ? null : ''
+      return
     }
 
-    this.component[this.name] = value
+    this.component[this.name] = await this.cast(initialValue)
   }
 
   async dehydrate(context: ComponentContext) {
@@ -45,13 +47,45 @@ export default class Url extends Decorator {
     context.pushEffect('url', queryString, this.name)
   }
 
-  async update(propertyName: string, newValue: any) {
+  async update(propertyName: string, _fullPath: string = propertyName, newValue?: any) {
     if (propertyName !== this.name) {
       return
     }
 
     if (newValue === null && !this.nullable && this.component) {
-      this.component[this.name] = ''
+      return () => {
+        this.component[this.name] = ''
+      }
+    }
+  }
+
+  /**
+   * Cast a query string value to the declared type of the property.
+   * Values that can't be cast are kept as they are.
+   */
+  protected async cast(value: any) {
+    const type = Reflect.getMetadata('design:type', this.component, this.name)
+
+    if (type === Array) {
+      return Array.isArray(value) ? value : [value]
     }
+
+    if (type === Date) {
+      const synth = new DateSynth(
+        new ComponentContext(this.component, true),
+        this.name,
+        this.component.app
+      )
+      const date = await synth.hydrate(value, {}, null)
+
+      return Number.isNaN(date.getTime()) ? value : date
+    }
+
+    if (type === Number || type === Boolean || type === String) {
+      // Invalid query string values are kept as they are instead of failing the page
+      return resolveBinding(this.component.app, { name: this.name, type }, value).catch(() => value)
+    }
+
+    return value
   }
 }
@@ -0,0 +1,7 @@
+/** PHP parity: CannotMutateReactivePropException */
+export class CannotMutateReactivePropException extends Error {
+  constructor(componentName: string, propertyName: string) {
+    super(`Cannot mutate reactive prop [${propertyName}] in component: [${componentName}]`)
+    this.name = 'CannotMutateReactivePropException'
+  }
+}
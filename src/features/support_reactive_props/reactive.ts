@@ -0,0 +1,31 @@
+import { Decorator } from '../support_decorators/decorator.js'
+import { CannotMutateReactivePropException } from './cannot_mutate_reactive_prop_exception.js'
+import { SupportReactiveProps } from './support_reactive_props.js'
+
+/**
+ * Reactive decorator for properties
+ *
+ * The property is passed by the parent. When the parent renders again with
+ * a new value, the value is pushed into the child, which renders again in
+ * the same request. The browser can't update it.
+ */
+export default class Reactive extends Decorator {
+  constructor(public name: string) {
+    super()
+  }
+
+  async hydrate() {
+    const id = this.component.getId()
+    const props = SupportReactiveProps.getPassedInProps(this.component.ctx, id)
+
+    if (props && this.name in props) {
+      this.component[this.name] = props[this.name]
+    }
+  }
+
+  async update(propertyName: string, _fullPath: string = propertyName, _newValue?: unknown) {
+    if (propertyName === this.name) {
+      throw new CannotMutateReactivePropException(this.component.getName(), this.name)
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import ComponentHook from '../../component_hook.js'
+import ComponentContext from '../../component_context.js'
+import Reactive from './reactive.js'
+
+/**
+ * Params passed by parents to the children they render again, per request
+ */
+const passedInProps = new WeakMap<HttpContext, Record<string, Record<string, any>>>()
+
+/**
+ * Feature to keep `@reactive` props in sync with the parent
+ *
+ * PHP parity: SupportReactiveProps
+ *
+ * Children list their reactive props in `memo.props`, so the client sends
+ * them along with their parent. When the parent renders again, the params
+ * of the children already on the page are kept for the request, and
+ * hydrated into the children right after.
+ */
+export class SupportReactiveProps extends ComponentHook {
+  async dehydrate(context: ComponentContext) {
+    const props = this.component
+      .getDecorators()
+      .filter((decorator): decorator is Reactive => decorator instanceof Reactive)
+      .map((decorator) => decorator.name)
+
+    if (props.length > 0) {
+      context.addMemo('props', props)
+    }
+  }
+
+  static setPassedInProps(ctx: HttpContext, id: string, params: Record<string, any>) {
+    passedInProps.set(ctx, { ...passedInProps.get(ctx), [id]: params })
+  }
+
+  static getPassedInProps(ctx: HttpContext, id: string): Record<string, any> | undefined {
+    return passedInProps.get(ctx)?.[id]
+  }
+}
@@ -1,7 +1,19 @@
 import { Decorator } from '../support_decorators/decorator.js'
 
+/**
+ * Renderless decorator for methods
+ *
+ * Skips rendering the component after the decorated method is called.
+ * Other actions still render the component.
+ */
 export default class Renderless extends Decorator {
-  async call() {
+  constructor(public method: string) {
+    super()
+  }
+
+  async call(method: string) {
+    if (method !== this.method) return
+
     this.component.skipRender()
   }
 }
@@ -0,0 +1,77 @@
+/// <reference types="@adonisjs/session/session_middleware" />
+
+import { Decorator } from '../support_decorators/decorator.js'
+
+/**
+ * Session decorator for properties
+ *
+ * The property is read from the session when the component is mounted,
+ * and written back every time the component is dehydrated, so it survives
+ * page reloads.
+ */
+export default class Session extends Decorator {
+  constructor(
+    public name: string,
+    public key: string | null = null
+  ) {
+    super()
+  }
+
+  async mount(params: Record<string, any> = {}) {
+    const session = await this.session()
+    const value = session.get(this.resolveKey(params))
+
+    // `session.has()` is false for falsy values, which are valid property values
+    if (value === undefined) {
+      return
+    }
+
+    this.component[this.name] = value
+  }
+
+  async dehydrate() {
+    const session = await this.session()
+    session.put(this.resolveKey(), this.component[this.name])
+  }
+
+  /**
+   * Session key of the property. Placeholders like `{author.id}` are
+   * replaced with the mount params when the component is mounted, and
+   * the component props otherwise.
+   */
+  resolveKey(params: Record<string, any> = {}) {
+    if (!this.key) {
+      return `livewire:${this.component.getName()}:${this.name}`
+    }
+
+    return this.key.replace(/\{([^}]+)\}/g, (placeholder, path: string) => {
+      const value = Session.get(params, path) ?? Session.get(this.component, path)
+
+      if (value === undefined || value === null) {
+        throw new Error(`Unable to evaluate dynamic session key placeholder: ${placeholder}`)
+      }
+
+      return String(value)
+    })
+  }
+
+  protected async session() {
+    const session = this.component.ctx?.session
+
+    if (!session) {
+      throw new Error(
+        'Cannot use @session without a session. Make sure the session_middleware is registered'
+      )
+    }
+
+    if (!session.initiated) {
+      await session.initiate(false)
+    }
+
+    return session
+  }
+
+  protected static get(target: any, path: string) {
+    return path.split('.').reduce((value, key) => value?.[key], target)
+  }
+}
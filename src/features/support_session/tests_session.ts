@@ -0,0 +1,108 @@
+/// <reference types="@adonisjs/session/session_middleware" />
+
+import { AssertionError } from 'node:assert'
+import { isDeepStrictEqual } from 'node:util'
+import { Session } from '@adonisjs/session'
+import { Emitter } from '@adonisjs/core/events'
+import type { HttpContext } from '@adonisjs/core/http'
+import type { ApplicationService } from '@adonisjs/core/types'
+import { Constructor } from '../../types.js'
+import { BaseTestable } from '../support_testing/base_testable.js'
+
+/**
+ * Create a session for a test request, read from the given values and
+ * kept in memory
+ */
+export function createTestingSession(
+  app: ApplicationService,
+  ctx: HttpContext,
+  values: Record<string, any> = {}
+) {
+  const config = {
+    enabled: true,
+    cookieName: 'adonis-session',
+    clearWithBrowser: false,
+    age: '2h',
+    cookie: {},
+  }
+
+  const store = {
+    read: () => values,
+    write: (_sessionId: string, newValues: Record<string, any>) => {
+      values = newValues
+    },
+    destroy: () => {
+      values = {}
+    },
+    touch: () => {},
+  }
+
+  return new Session(config, () => store, new Emitter(app) as any, ctx)
+}
+
+/**
+ * Provides session assertions for testing components
+ */
+export function TestsSession<TConstructor extends Constructor<BaseTestable>>(Base: TConstructor) {
+  return class extends Base {
+    /**
+     * Assert that the session has a key, optionally with a value
+     *
+     * @example
+     * test.assertSessionHas('livewire:posts-table:search')
+     * test.assertSessionHas('filters', { status: 'draft' })
+     */
+    assertSessionHas(key: string, value?: any): this {
+      const session = this.instance().ctx?.session
+
+      if (!session?.initiated || session.get(key) === undefined) {
+        throw new AssertionError({
+          message: `Failed asserting that the session has [${key}].`,
+          actual: undefined,
+          expected: key,
+          operator: 'sessionHas',
+        })
+      }
+
+      if (value !== undefined && !isDeepStrictEqual(session.get(key), value)) {
+        throw new AssertionError({
+          message: `Failed asserting that the session value of [${key}] matches.`,
+          actual: session.get(key),
+          expected: value,
+          operator: 'sessionHas',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that the session doesn't have a key
+     *
+     * @example
+     * test.assertSessionMissing('livewire:posts-table:search')
+     */
+    assertSessionMissing(key: string): this {
+      const session = this.instance().ctx?.session
+
+      if (session?.initiated && session.get(key) !== undefined) {
+        throw new AssertionError({
+          message: `Failed asserting that the session doesn't have [${key}].`,
+          actual: session.get(key),
+          expected: undefined,
+          operator: 'sessionMissing',
+        })
+      }
+
+      return this
+    }
+  }
+}
+
+/**
+ * Interface for type safety when using TestsSession mixin
+ */
+export interface TestsSession {
+  assertSessionHas(key: string, value?: any): this
+  assertSessionMissing(key: string): this
+}
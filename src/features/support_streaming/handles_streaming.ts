@@ -0,0 +1,27 @@
+import { BaseComponent } from '../../base_component.js'
+import { store } from '../../store.js'
+import { Constructor } from '../../types.js'
+import { SupportStreaming, type StreamedContent } from './support_streaming.js'
+
+/** PHP parity: stream($to, $content, $replace) targets elements with wire:stream="to" */
+export function HandlesStreaming<T extends Constructor<BaseComponent>>(Base: T) {
+  return class extends Base {
+    async stream(to: string, content: string, replace: boolean = false) {
+      const body: StreamedContent = {
+        id: this.getId(),
+        type: 'directive',
+        name: to,
+        el: null,
+        ref: null,
+        content,
+        mode: replace ? 'replace' : 'default',
+      }
+
+      store(this).push('streamed', body)
+
+      if (SupportStreaming.canStream(this.ctx)) {
+        await SupportStreaming.streamContent(this.ctx, body)
+      }
+    }
+  }
+}
@@ -0,0 +1,120 @@
+/// <reference types="@adonisjs/session/session_middleware" />
+
+import type { HttpContext } from '@adonisjs/core/http'
+import ComponentHook from '../../component_hook.js'
+import { store } from '../../store.js'
+import { LivewireHeaders } from '../../headers.js'
+import debug from '../../debug.js'
+
+/**
+ * Body of a single streamed chunk, as read by the client `stream` handler
+ */
+export interface StreamedContent {
+  id: string
+  type: 'directive'
+  name: string
+  el: null
+  ref: null
+  content: string
+  mode: 'replace' | 'default'
+}
+
+/**
+ * Chunks written to the response, per request
+ */
+const pendingWrites = new WeakMap<HttpContext, Promise<void>>()
+
+/**
+ * PHP parity: SupportStreaming. Streams `wire:stream` chunks while an action
+ * is still running. The first chunk switches the update response into
+ * streaming mode, the final JSON payload is written once the request ends.
+ */
+export class SupportStreaming extends ComponentHook {
+  /**
+   * Chunks that were not written to the response (e.g. when testing) are
+   * kept in the effects so they can still be asserted
+   */
+  async dehydrate(context: { addEffect: (k: string, v: unknown) => void }) {
+    const s = store(this.component)
+    if (!s.has('streamed') || SupportStreaming.canStream(this.component.ctx)) return
+
+    context.addEffect('streamed', s.get('streamed'))
+  }
+
+  /**
+   * Streaming only applies to `/livewire/update` requests sent by the client
+   */
+  static canStream(ctx?: HttpContext): boolean {
+    if (!ctx?.request || !ctx.response) return false
+
+    return ctx.request.header(LivewireHeaders.Livewire) !== undefined
+  }
+
+  /**
+   * Write the head through `ctx.response`, so its headers and queued cookies
+   * are sent. The session is committed first, since its cookie can't be
+   * sent once the head is written. Writes made afterwards (e.g. `@session`
+   * props on dehydrate) reach the store when the session middleware commits
+   * again, which the `cookie` store can't do anymore.
+   */
+  static async startStreamResponse(ctx: HttpContext) {
+    debug('SupportStreaming: starting stream response')
+    await ctx.session?.commit()
+
+    ctx.response
+      .header('Cache-Control', 'no-cache')
+      .header('Content-Type', 'text/event-stream')
+      .header('X-Accel-Buffering', 'no')
+      .header('X-Livewire-Stream', 'true')
+      .writeHead(200)
+  }
+
+  /**
+   * Chunks are written in order, once the response was started
+   */
+  static streamContent(ctx: HttpContext, body: StreamedContent): Promise<void> {
+    const write = (pendingWrites.get(ctx) ?? SupportStreaming.startStreamResponse(ctx)).then(() => {
+      ctx.response.response.write(JSON.stringify({ stream: true, body, endStream: true }))
+    })
+
+    pendingWrites.set(ctx, write)
+    return write
+  }
+
+  /**
+   * Whether the response was switched into streaming mode, in which case
+   * the final payload has to be written with `endStream`
+   */
+  static isStreaming(ctx: HttpContext): boolean {
+    return pendingWrites.has(ctx)
+  }
+
+  /**
+   * Write the final payload once every chunk was written
+   */
+  static async endStream(ctx: HttpContext, payload: unknown) {
+    await pendingWrites.get(ctx)
+    ctx.response.response.end(JSON.stringify(payload))
+  }
+
+  /**
+   * End the response of an action that failed after it started streaming.
+   * The head is already sent, so the error is written as the final chunk,
+   * which the client can't parse as a payload and reports as an error.
+   */
+  static async failStream(ctx: HttpContext) {
+    await pendingWrites.get(ctx)?.catch(() => {})
+    ctx.response.response.end('Internal Server Error')
+  }
+
+  /**
+   * Resolve the content of a `wire:stream` target the same way the client
+   * does: replace chunks reset the content, other chunks are appended
+   */
+  static resolveStreamedContent(chunks: StreamedContent[]): string {
+    return chunks.reduce(
+      (content, chunk) => (chunk.mode === 'replace' ? chunk.content : content + chunk.content),
+      ''
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { AssertionError } from 'node:assert'
+import { Constructor } from '../../types.js'
+import { BaseTestable } from '../support_testing/base_testable.js'
+import { SupportStreaming, type StreamedContent } from './support_streaming.js'
+
+/**
+ * Provides streaming assertion methods for testing components
+ */
+export function TestsStreaming<TConstructor extends Constructor<BaseTestable>>(Base: TConstructor) {
+  return class extends Base {
+    /**
+     * Get all chunks streamed by the component
+     */
+    streamed(): StreamedContent[] {
+      const effects = this.state.getEffects()
+      return (effects.streamed as StreamedContent[]) ?? []
+    }
+
+    /**
+     * Assert that content was streamed to a `wire:stream` target
+     *
+     * @param to - The `wire:stream` target name
+     * @param content - Optional content the chunks streamed to the target must match
+     *
+     * @example
+     * test.assertStreamed('answer')
+     * test.assertStreamed('answer', 'Hello World')
+     */
+    assertStreamed(to: string, content?: string): this {
+      const chunks = this.streamed().filter((chunk) => chunk.name === to)
+
+      if (chunks.length === 0) {
+        throw new AssertionError({
+          message: `Failed asserting that content was streamed to [${to}].`,
+          actual: this.streamed(),
+          expected: to,
+          operator: 'streamed',
+        })
+      }
+
+      if (content === undefined) return this
+
+      const actual = SupportStreaming.resolveStreamedContent(chunks)
+
+      if (actual !== content) {
+        throw new AssertionError({
+          message: `Failed asserting that [${content}] was streamed to [${to}].`,
+          actual,
+          expected: content,
+          operator: 'streamed',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that nothing was streamed to a `wire:stream` target
+     *
+     * @example
+     * test.assertNotStreamed('answer')
+     */
+    assertNotStreamed(to: string): this {
+      if (this.streamed().some((chunk) => chunk.name === to)) {
+        throw new AssertionError({
+          message: `Failed asserting that no content was streamed to [${to}].`,
+          actual: this.streamed(),
+          expected: `no content streamed to ${to}`,
+          operator: 'notStreamed',
+        })
+      }
+
+      return this
+    }
+  }
+}
+
+/**
+ * Interface for type safety when using TestsStreaming mixin
+ */
+export interface TestsStreaming {
+  streamed(): StreamedContent[]
+  assertStreamed(to: string, content?: string): this
+  assertNotStreamed(to: string): this
+}
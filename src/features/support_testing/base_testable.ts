@@ -2,7 +2,7 @@ import Macroable from '@poppinss/macroable'
 import { Component } from '../../component.js'
 import { ComponentConstructor, ComponentEffects, ComponentSnapshot } from '../../types.js'
 import { ComponentState } from './component_state.js'
-import { DataStore, livewireContext } from '../../store.js'
+import { DataStore, livewireContext, store } from '../../store.js'
 import ComponentContext from '../../component_context.js'
 import ComponentHook from '../../component_hook.js'
 import { HttpContext } from '@adonisjs/core/http'
@@ -14,6 +14,11 @@ import { TestsValidation } from '../support_validation/tests_validation.js'
 import { TestsRedirects } from '../support_redirects/tests_redirects.js'
 import edge from 'edge.js'
 import { TestsEvents } from '../support_events/tests_events.js'
+import { TestsStreaming } from '../support_streaming/tests_streaming.js'
+import { TestsFileDownloads } from '../support_file_downloads/tests_file_downloads.js'
+import { TestsAuthorization } from '../support_authorization/tests_authorization.js'
+import { TestsThrottling } from '../support_throttling/tests_throttling.js'
+import { TestsSession } from '../support_session/tests_session.js'
 
 /**
  * Type helper to convert MakesAssertions methods to return ChainableTest
@@ -44,6 +49,8 @@ class ChainableTest implements PromiseLike<Testable> {
           'assertSet',
           'assertNotSet',
           'assertCount',
+          'assertRendered',
+          'assertNotRendered',
           'assertSee',
           'assertDontSee',
           'assertSeeHtml',
@@ -56,6 +63,16 @@ class ChainableTest implements PromiseLike<Testable> {
           'assertRedirectContains',
           'assertRedirectToRoute',
           'assertNoRedirect',
+          'assertStreamed',
+          'assertNotStreamed',
+          'assertFileDownloaded',
+          'assertNoFileDownloaded',
+          'assertForbidden',
+          'assertNotForbidden',
+          'assertThrottled',
+          'assertNotThrottled',
+          'assertSessionHas',
+          'assertSessionMissing',
         ]
 
         const isAssertionMethod = assertionMethods.includes(prop as string)
@@ -183,7 +200,12 @@ interface ChainableTest
     ChainableAssertions<MakesAssertions>,
     ChainableAssertions<TestsValidation>,
     ChainableAssertions<TestsRedirects>,
-    ChainableAssertions<TestsEvents> {}
+    ChainableAssertions<TestsEvents>,
+    ChainableAssertions<TestsStreaming>,
+    ChainableAssertions<TestsFileDownloads>,
+    ChainableAssertions<TestsAuthorization>,
+    ChainableAssertions<TestsThrottling>,
+    ChainableAssertions<TestsSession> {}
 
 export class BaseTestable extends Macroable {
   #state: ComponentState
@@ -398,13 +420,12 @@ export class BaseTestable extends Macroable {
   }
 
   async #executeCall(method: string, ...params: any[]): Promise<this> {
-    const component = this.state.getComponent() as any
+    const component = this.state.getComponent()
+    const livewire = await component.app.container.make('livewire')
 
-    if (!this.hasMethod(component, method)) {
-      throw new Error(`Method '${method}' does not exist on component`)
-    }
+    // Same pipeline as a request: guards, call hooks, bindings and exception handling
+    await livewire.callMethods(component, [{ method, params }], this.#componentContext)
 
-    await component[method](...params)
     await this.#updateComponentState(component, this.#componentContext)
 
     return this
@@ -419,11 +440,23 @@ export class BaseTestable extends Macroable {
     component: Component,
     componentContext: ComponentContext
   ): Promise<void> {
-    let html = await component.render()
+    // Each interaction is a request of its own, so skipRender() only applies once
+    let skipRender = store(component).get('skipRender')
+    skipRender = Array.isArray(skipRender) ? skipRender[0] : skipRender
+    store(component).set('skipRender', false)
+
+    let html: string | undefined
+    if (!skipRender) {
+      html = await component.render()
+
+      // Process the HTML through Edge to compile directives like @if, @foreach, etc.
+      // This mirrors PHP Livewire where Blade compiles the template
+      html = await component.view.renderRaw(html, this.#getComponentState(component))
+    }
 
-    // Process the HTML through Edge to compile directives like @if, @foreach, etc.
-    // This mirrors PHP Livewire where Blade compiles the template
-    html = await component.view.renderRaw(html, this.#getComponentState(component))
+    for (const feature of this.#features) {
+      await feature.callDehydrate(componentContext)
+    }
 
     const livewire = await component.app.container.make('livewire')
     const snapshot = await livewire.snapshot(component, componentContext)
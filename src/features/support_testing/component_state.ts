@@ -11,6 +11,7 @@ export class ComponentState {
   declare effects: ComponentEffects
   declare html: string
   declare view: any
+  rendered: boolean = true
 
   constructor(
     component: Component,
@@ -94,11 +95,20 @@ export class ComponentState {
   }
 
   /**
-   * Update component state from new snapshot
+   * Whether the component was rendered by the last interaction
    */
-  update(snapshot: ComponentSnapshot, effects: ComponentEffects = {}, html: string = ''): void {
+  isRendered(): boolean {
+    return this.rendered
+  }
+
+  /**
+   * Update component state from new snapshot. Without html, the component
+   * was not rendered and keeps its previous html.
+   */
+  update(snapshot: ComponentSnapshot, effects: ComponentEffects = {}, html?: string): void {
     this.snapshot = snapshot
     this.effects = effects
-    this.html = html
+    this.rendered = html !== undefined
+    if (html !== undefined) this.html = html
   }
 }
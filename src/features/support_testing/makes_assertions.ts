@@ -110,6 +110,39 @@ export function MakesAssertions<TConstructor extends Constructor<BaseTestable>>(
       return this
     }
 
+    /**
+     * Assert that the component was rendered by the last interaction
+     */
+    assertRendered(): this {
+      if (!this.state.isRendered()) {
+        throw new AssertionError({
+          message: 'Failed asserting that the component was rendered.',
+          actual: false,
+          expected: true,
+          operator: 'rendered',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that the last interaction skipped rendering, as with
+     * `@renderless` or `this.skipRender()`
+     */
+    assertNotRendered(): this {
+      if (this.state.isRendered()) {
+        throw new AssertionError({
+          message: 'Failed asserting that the component was not rendered.',
+          actual: true,
+          expected: false,
+          operator: 'notRendered',
+        })
+      }
+
+      return this
+    }
+
     /**
      * Escape HTML special characters
      */
@@ -148,4 +181,6 @@ export interface MakesAssertions {
   assertSet(propertyName: string, value: any): this
   assertNotSet(propertyName: string, value: any): this
   assertCount(propertyName: string, count: number): this
+  assertRendered(): this
+  assertNotRendered(): this
 }
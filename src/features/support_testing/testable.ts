@@ -4,11 +4,21 @@ import { MakesAssertions } from './makes_assertions.js'
 import { TestsValidation } from '../support_validation/tests_validation.js'
 import { TestsRedirects } from '../support_redirects/tests_redirects.js'
 import { TestsEvents } from '../support_events/tests_events.js'
+import { TestsStreaming } from '../support_streaming/tests_streaming.js'
+import { TestsFileDownloads } from '../support_file_downloads/tests_file_downloads.js'
+import { TestsAuthorization } from '../support_authorization/tests_authorization.js'
+import { TestsThrottling } from '../support_throttling/tests_throttling.js'
+import { TestsSession } from '../support_session/tests_session.js'
 
 export class Testable extends compose(
   BaseTestable,
   MakesAssertions,
   TestsValidation,
   TestsRedirects,
-  TestsEvents
+  TestsEvents,
+  TestsStreaming,
+  TestsFileDownloads,
+  TestsAuthorization,
+  TestsThrottling,
+  TestsSession
 ) {}
@@ -0,0 +1,58 @@
+import ComponentHook from '../../component_hook.js'
+import { Component } from '../../component.js'
+import { store } from '../../store.js'
+import Throttle from './throttle.js'
+import type { ThrottledCall } from './types.js'
+
+/**
+ * SupportThrottling rate limits component actions decorated with `@throttle`
+ *
+ * The limit is consumed before the action and before the `call` hooks.
+ * Calls over the limit are not run, and send a `throttled` effect along with
+ * an error for the method in the error bag.
+ */
+export class SupportThrottling extends ComponentHook {
+  /**
+   * Consume the `@throttle` limits of a method, throwing
+   * `E_TOO_MANY_REQUESTS` when one of them is exceeded
+   */
+  static async throttleCall(component: Component, method: string) {
+    for (const decorator of SupportThrottling.decorators(component, method)) {
+      await decorator.consume()
+    }
+  }
+
+  static decorators(component: Component, method: string): Throttle[] {
+    return component
+      .getDecorators()
+      .filter(
+        (decorator): decorator is Throttle =>
+          decorator instanceof Throttle && decorator.method === method
+      )
+      .map((decorator) => {
+        decorator.__boot(component)
+        return decorator
+      })
+  }
+
+  async exception(...params: any[]): Promise<void> {
+    const [error, stopPropagation] = params
+    const s = store(this.component)
+    if (error?.code !== 'E_TOO_MANY_REQUESTS' || !s.has('throttled')) return
+
+    const throttled: ThrottledCall = s.get('throttled')
+    this.component.addError(
+      throttled.method,
+      `Too many attempts. Please try again in ${throttled.availableIn} seconds.`
+    )
+
+    stopPropagation?.()
+  }
+
+  async dehydrate(context: { addEffect: (k: string, v: any) => void }) {
+    const s = store(this.component)
+    if (!s.has('throttled')) return
+
+    context.addEffect('throttled', s.get('throttled'))
+  }
+}
@@ -0,0 +1,99 @@
+import { AssertionError } from 'node:assert'
+import { Constructor } from '../../types.js'
+import { BaseTestable } from '../support_testing/base_testable.js'
+import { SupportThrottling } from './support_throttling.js'
+
+/**
+ * Provides rate limiting helpers and assertions for testing components
+ */
+export function TestsThrottling<TConstructor extends Constructor<BaseTestable>>(
+  Base: TConstructor
+) {
+  return class extends Base {
+    /**
+     * Consume every request of the `@throttle` limits of a method, so the
+     * next call is throttled
+     *
+     * @example
+     * await test.exceedRateLimit('save')
+     * await test.call('save')
+     * test.assertThrottled('save')
+     */
+    async exceedRateLimit(method: string): Promise<this> {
+      const decorators = SupportThrottling.decorators(this.instance(), method)
+
+      if (decorators.length === 0) {
+        throw new Error(`Method '${method}' is not throttled`)
+      }
+
+      for (const decorator of decorators) {
+        await decorator.exhaust()
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that an action was throttled
+     *
+     * @param method - Optional expected method name
+     *
+     * @example
+     * test.assertThrottled()
+     * test.assertThrottled('save')
+     */
+    assertThrottled(method?: string): this {
+      const throttled = this.state.getEffects().throttled
+
+      if (!throttled) {
+        throw new AssertionError({
+          message: 'Failed asserting that the action was throttled.',
+          actual: undefined,
+          expected: 'throttled effect',
+          operator: 'throttled',
+        })
+      }
+
+      if (method !== undefined && throttled.method !== method) {
+        throw new AssertionError({
+          message: `Failed asserting that the throttled method [${throttled.method}] matches [${method}].`,
+          actual: throttled.method,
+          expected: method,
+          operator: 'throttled',
+        })
+      }
+
+      return this
+    }
+
+    /**
+     * Assert that no action was throttled
+     *
+     * @example
+     * test.assertNotThrottled()
+     */
+    assertNotThrottled(): this {
+      const throttled = this.state.getEffects().throttled
+
+      if (throttled) {
+        throw new AssertionError({
+          message: `Failed asserting that the action was not throttled, got [${throttled.method}].`,
+          actual: throttled.method,
+          expected: 'no throttled effect',
+          operator: 'notThrottled',
+        })
+      }
+
+      return this
+    }
+  }
+}
+
+/**
+ * Interface for type safety when using TestsThrottling mixin
+ */
+export interface TestsThrottling {
+  exceedRateLimit(method: string): Promise<this>
+  assertThrottled(method?: string): this
+  assertNotThrottled(): this
+}
@@ -0,0 +1,96 @@
+import { Decorator } from '../support_decorators/decorator.js'
+import type { ApplicationService } from '@adonisjs/core/types'
+import type { LimiterManager } from '@adonisjs/limiter'
+import type { LimiterConsumptionOptions } from '@adonisjs/limiter/types'
+import { store } from '../../store.js'
+import type { ThrottledCall, ThrottleOptions } from './types.js'
+
+let memoryLimiter: LimiterManager<any> | null = null
+
+/**
+ * Use the limiter of the application, or an in-memory limiter when
+ * `@adonisjs/limiter` is not configured
+ */
+async function useLimiter(app: ApplicationService, options: LimiterConsumptionOptions) {
+  if (app.container.hasBinding('limiter.manager')) {
+    const manager = (await app.container.make('limiter.manager' as any)) as LimiterManager<any>
+    return manager.use(options)
+  }
+
+  if (!memoryLimiter) {
+    const { LimiterManager: Manager, stores } = await import('@adonisjs/limiter')
+    memoryLimiter = new Manager({ default: 'memory', stores: { memory: stores.memory({}) } })
+  }
+
+  return memoryLimiter.use(options)
+}
+
+/**
+ * Throttle decorator for methods
+ *
+ * Each call from the browser consumes a request of the limit. Calls over
+ * the limit are not run.
+ */
+export default class Throttle extends Decorator {
+  constructor(
+    public method: string,
+    public requests: number,
+    public duration: number | string,
+    public options: ThrottleOptions = {}
+  ) {
+    super()
+  }
+
+  /**
+   * Key of the limiter, scoped to the component and the method
+   */
+  key() {
+    const { key = 'user' } = this.options
+    const ctx = this.component.ctx as any
+
+    let identifier: string | number
+    if (typeof key === 'function') {
+      identifier = key(this.component)
+    } else if (key === 'component') {
+      identifier = `component_${this.component.getId()}`
+    } else if (key === 'user' && ctx?.auth?.user) {
+      identifier = `user_${ctx.auth.user.id}`
+    } else {
+      identifier = `ip_${ctx?.request?.ip()}`
+    }
+
+    return `livewire:${this.component.getName()}:${this.method}:${identifier}`
+  }
+
+  async limiter() {
+    return useLimiter(this.component.app, {
+      requests: this.requests,
+      duration: this.duration,
+    })
+  }
+
+  async consume() {
+    const limiter = await this.limiter()
+
+    try {
+      await limiter.consume(this.key())
+    } catch (error) {
+      if (error?.code === 'E_TOO_MANY_REQUESTS') {
+        store(this.component).set('throttled', {
+          method: this.method,
+          ...error.response.toJSON(),
+        } satisfies ThrottledCall)
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Consume every request of the limit
+   */
+  async exhaust() {
+    const limiter = await this.limiter()
+    await limiter.set(this.key(), this.requests, this.duration)
+  }
+}
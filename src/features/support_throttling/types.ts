@@ -0,0 +1,29 @@
+import type { Component } from '../../component.js'
+
+/**
+ * Who a `@throttle` limit applies to
+ *
+ * - `user`: the authenticated user, or the IP address for guests
+ * - `ip`: the IP address of the request
+ * - `component`: the component instance
+ * - a function returning a custom key
+ */
+export type ThrottleKey = 'user' | 'ip' | 'component' | ((component: Component) => string | number)
+
+export type ThrottleOptions = {
+  key?: ThrottleKey
+}
+
+/**
+ * Throttled action, as sent in `effects.throttled`
+ */
+export interface ThrottledCall {
+  method: string
+  limit: number
+  remaining: number
+  consumed: number
+  /**
+   * Seconds until the action can be called again
+   */
+  availableIn: number
+}
@@ -3,6 +3,7 @@ import type { BaseComponent } from '../../base_component.js'
 import { store } from '../../store.js'
 import type { InferInput, Infer, ConstructableSchema } from '@vinejs/vine/types'
 import type { InferValidationReturnType } from './types.js'
+import { validationMessagesProvider } from '../../utils/i18n.js'
 
 /**
  * Error bag for storing validation errors
@@ -480,7 +481,11 @@ export function HandlesValidation<T extends Constructor<BaseComponent>>(Base: T)
       const dataToValidate = data ?? this.#getComponentData()
 
       try {
-        const validated = await vine.validate({ schema, data: dataToValidate })
+        const validated = await vine.validate({
+          schema,
+          data: dataToValidate,
+          messagesProvider: validationMessagesProvider(this.ctx),
+        })
         this.resetErrorBag()
         return validated
       } catch (error: any) {
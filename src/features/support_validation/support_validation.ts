@@ -1,5 +1,6 @@
 import ComponentHook from '../../component_hook.js'
 import ComponentContext from '../../component_context.js'
+import { validationMessagesProvider } from '../../utils/i18n.js'
 
 /**
  * Feature to support validation in components
@@ -63,9 +64,22 @@ export class SupportValidation extends ComponentHook {
 
   /**
    * Handle exception - catch ValidationException and set error bag
+   *
+   * Validation and invalid credentials errors are also flashed to the
+   * session, so forms rendered outside of the component can show them.
    */
   async exception(...params: any[]): Promise<void> {
     const [error, stopPropagation] = params
+    const session = (this.component as any)?.ctx?.session
+
+    if (error?.code === 'E_INVALID_CREDENTIALS') {
+      if (session) {
+        session.flashExcept(['_csrf', '_method', 'password', 'password_confirmation'])
+        session.flashErrors({ [error.code]: error.message })
+        stopPropagation?.()
+      }
+      return
+    }
     const isValidationError =
       error?.name === 'ValidationException' ||
       error?.constructor?.name === 'ValidationException' ||
@@ -77,6 +91,10 @@ export class SupportValidation extends ComponentHook {
       return
     }
 
+    if (error.code === 'E_VALIDATION_ERROR') {
+      session?.flashValidationErrors(error)
+    }
+
     const component = this.component as any
     let errorMessages: Record<string, string[]> = {}
 
@@ -109,6 +127,17 @@ export class SupportValidation extends ComponentHook {
    */
   private normalizeErrorMessages(messages: any): Record<string, string[]> {
     const normalized: Record<string, string[]> = {}
+
+    /**
+     * VineJS reports errors as a list of `{ field, message }`
+     */
+    if (Array.isArray(messages)) {
+      for (const { field, message } of messages) {
+        normalized[field] = [...(normalized[field] ?? []), String(message)]
+      }
+      return normalized
+    }
+
     for (const [field, messageOrArray] of Object.entries(messages)) {
       if (Array.isArray(messageOrArray)) {
         normalized[field] = messageOrArray.map(String)
@@ -136,12 +165,11 @@ export class SupportValidation extends ComponentHook {
     )
 
     // If property has @validator decorator and onUpdate is true, validate it
+    // once the new value is set
     if (validatorDecorator && validatorDecorator.onUpdate) {
-      // Validate only this property
-      await this.#validateProperty(component, propertyName, validatorDecorator)
+      return () => this.#validateProperty(component, propertyName, validatorDecorator)
     }
 
-    // Return undefined (no callback needed)
     return undefined
   }
 
@@ -168,7 +196,11 @@ export class SupportValidation extends ComponentHook {
       })
 
       // Validate only this field
-      await vine.validate({ schema: partialSchema, data: { [propertyName]: propertyValue } })
+      await vine.validate({
+        schema: partialSchema,
+        data: { [propertyName]: propertyValue },
+        messagesProvider: validationMessagesProvider(component.ctx),
+      })
 
       // Clear error for this field if validation passes
       if (typeof component.resetErrorBag === 'function') {
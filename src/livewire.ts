@@ -5,18 +5,21 @@ import { Component } from './component.js'
 import ComponentContext from './component_context.js'
 import { DataStore, getLivewireContext, livewireContext, store } from './store.js'
 import { Checksum } from './checksum.js'
+import { ComponentDiscovery, type ComponentNamespace } from './component_discovery.js'
 import Layout from './features/support_page_components/layout.js'
+import Encrypted from './features/support_encrypted_properties/encrypted.js'
 import { Secret } from '@adonisjs/core/helpers'
 import type { Config } from './define_config.js'
 import { EventBus } from './event_bus.js'
 import edge from 'edge.js'
 import { Synth } from '../index.js'
-import { existsSync } from 'node:fs'
 import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import debug from './debug.js'
 import type {
   ComponentSnapshot,
+  ComponentMemo,
   ComponentCall,
   ComponentEffects,
   MountOptions,
@@ -24,10 +27,19 @@ import type {
   ComponentConstructor,
 } from './types.js'
 import { Testable } from './features/support_testing/testable.js'
-import { HttpContextFactory } from '@adonisjs/http-server/factories'
+import { createTestingSession } from './features/support_session/tests_session.js'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
 import { isSyntheticTuple } from './utils/synthetic.js'
+import { EncryptedSynth } from './synthesizers/encrypted.js'
 import { insertAttributesIntoHtmlRoot as insertAttributesIntoHtml } from './utils/html.js'
 import { extractComponentParts } from './utils/component.js'
+import { resolveActionParams, resolveBinding } from './utils/bindings.js'
+import { getLocale, restoreLocale } from './utils/i18n.js'
+import { SupportNestingComponents } from './features/support_nesting_components/support_nesting_components.js'
+import { SupportReactiveProps } from './features/support_reactive_props/support_reactive_props.js'
+import { SupportAuthorization } from './features/support_authorization/support_authorization.js'
+import { SupportThrottling } from './features/support_throttling/support_throttling.js'
+import { SupportEvents } from './features/support_events/support_events.js'
 
 export default class Livewire {
   app: ApplicationService
@@ -35,6 +47,7 @@ export default class Livewire {
   config: Config
   components = new Map<string, ComponentConstructor>()
   checksum: Checksum
+  discovery: ComponentDiscovery
   static FEATURES: ComponentHookConstructor[] = []
   static PROPERTY_SYNTHESIZERS: Array<typeof Synth> = []
 
@@ -48,6 +61,11 @@ export default class Livewire {
    */
   #cookiesForTesting: Record<string, string> = {}
 
+  /**
+   * Testing state - session values to pass to test context
+   */
+  #sessionForTesting: Record<string, any> | null = null
+
   /**
    * Testing state - headers to pass to test context
    */
@@ -71,9 +89,15 @@ export default class Livewire {
     this.config = config
 
     const appKey = this.app.config.get<string | Secret<string>>('app.appKey', 'appKey')
-    const key = appKey instanceof Secret ? appKey.release() : appKey
+    const keys = [appKey, ...(config.checksum?.previousKeys ?? [])].map((key) =>
+      key instanceof Secret ? key.release() : key
+    )
 
-    this.checksum = new Checksum(key)
+    this.checksum = new Checksum(keys, config.checksum?.signer ?? undefined)
+    this.discovery = new ComponentDiscovery(app, {
+      classes: config.class_namespace,
+      views: config.view_path,
+    })
   }
 
   static componentHook(feature: ComponentHookConstructor) {
@@ -109,43 +133,7 @@ export default class Livewire {
       return true
     }
 
-    const jsPath = name
-      .split('.')
-      .map((s) => string.snakeCase(s))
-      .join('/')
-
-    const livewirePaths = [
-      this.app.makeURL(`./app/livewire/${jsPath}.js`),
-      this.app.makeURL(`./app/livewire/${jsPath}/index.js`),
-      this.app.makeURL(`./app/livewire/${jsPath}.ts`),
-      this.app.makeURL(`./app/livewire/${jsPath}.tsx`),
-      this.app.makeURL(`./app/livewire/${jsPath}/index.ts`),
-      this.app.makeURL(`./app/livewire/${jsPath}/index.tsx`),
-    ]
-
-    for (const livewirePath of livewirePaths) {
-      if (existsSync(fileURLToPath(livewirePath))) {
-        return true
-      }
-    }
-
-    const viewPath = name
-      .split('.')
-      .map((s) => string.snakeCase(s))
-      .join('/')
-
-    const livewireViewPaths = [
-      this.app.makeURL(`./resources/views/livewire/${viewPath}.edge`),
-      this.app.makeURL(`./resources/views/livewire/${viewPath}/index.edge`),
-    ]
-
-    for (const livewireViewPath of livewireViewPaths) {
-      if (existsSync(fileURLToPath(livewireViewPath))) {
-        return true
-      }
-    }
-
-    return false
+    return this.discovery.find(name) !== undefined
   }
 
   /**
@@ -191,6 +179,23 @@ export default class Livewire {
     return this
   }
 
+  /**
+   * Set session values for testing. Requests without a session get one
+   * kept in memory
+   *
+   * @example
+   * ```ts
+   * await Livewire
+   *   .withSession({ 'livewire:posts-table:search': 'adonis' })
+   *   .test(PostsTable)
+   *   .mount()
+   * ```
+   */
+  withSession(values: Record<string, any>): this {
+    this.#sessionForTesting = { ...this.#sessionForTesting, ...values }
+    return this
+  }
+
   /**
    * Set headers for testing
    * PHP parity: withHeaders($headers)
@@ -255,6 +260,7 @@ export default class Livewire {
   #resetTestingState(): void {
     this.#queryParamsForTesting = {}
     this.#cookiesForTesting = {}
+    this.#sessionForTesting = null
     this.#headersForTesting = {}
     this.#disableLazyLoading = false
     this.#actingAsUser = null
@@ -299,6 +305,20 @@ export default class Livewire {
     // Apply cookies to request
     // Note: cookies handling depends on session/cookie implementation
 
+    // Apply session values, on a session kept in memory when the request has none
+    if (this.#sessionForTesting) {
+      const values = this.#sessionForTesting
+      const session = (ctx as any).session
+
+      if (session?.initiated) {
+        for (const [key, value] of Object.entries(values)) {
+          session.put(key, value)
+        }
+      } else {
+        ;(ctx as any).session = createTestingSession(this.app, ctx, { ...values })
+      }
+    }
+
     // Handle authenticated user
     if (this.#actingAsUser) {
       const { user, guard } = this.#actingAsUser
@@ -400,14 +420,19 @@ export default class Livewire {
           callbacks.push(callback)
         }
       } else if (event === 'update') {
-        await feature.callUpdate(params[0], params[1], params[2])
+        callbacks.push(await feature.callUpdate(params[0], params[1], params[2]))
+      } else if (event === 'renderIsland') {
+        const callback = await feature.callRenderIsland(...params)
+        if (callback) {
+          callbacks.push(callback)
+        }
       } else if (event === 'call') {
-        // params = [method, methodParams, componentContext, returnEarly]
+        // params = [method, methodParams, componentContext, returnEarly, metadata]
         const callback = await feature.callCall(
           params[0], // method
           params[1], // params
           params[3], // returnEarly
-          undefined, // metadata (not used currently)
+          params[4], // metadata
           params[2] // componentContext
         )
         if (callback) {
@@ -501,6 +526,21 @@ export default class Livewire {
     options: MountOptions = {}
   ) {
     debug('mounting component %s with params %O and options %O', name, params, options)
+
+    const parent = getLivewireContext()?.context?.component as Component | undefined
+    const key = options.key !== undefined && options.key !== null ? String(options.key) : undefined
+
+    // The child is already on the page, let the client keep it instead of mounting it again
+    if (parent && key !== undefined) {
+      if (SupportNestingComponents.hasPreviouslyRenderedChild(parent, key)) {
+        const [tag, childId] = SupportNestingComponents.getPreviouslyRenderedChild(parent, key)
+        debug('skipping mount of child %s with key %s, already rendered as %s', name, key, childId)
+        SupportNestingComponents.setParentChild(parent, key, tag, childId)
+        SupportReactiveProps.setPassedInProps(ctx, childId, params)
+        return `<${tag} wire:id="${childId}"></${tag}>`
+      }
+    }
+
     let component = await this.new(ctx, name)
 
     let context = new ComponentContext(component, true)
@@ -512,121 +552,141 @@ export default class Livewire {
       return feature
     })
 
-    return await livewireContext.run({ dataStore, context, features, ctx }, async () => {
-      if (options.layout && !component.getDecorators().some((d) => d instanceof Layout)) {
-        component.addDecorator(new Layout(options.layout.name))
-      }
-
-      context.addMemo('path', ctx.request.url())
+    // Read while the context of the parent is still active, so children inherit its route
+    const routeMemo = this.routeMemo(ctx)
 
-      await this.trigger('mount', component, params, options.key)
-
-      const s = store(component)
+    const html = await livewireContext.run({ dataStore, context, features, ctx }, async () => {
+      try {
+        if (options.layout && !component.getDecorators().some((d) => d instanceof Layout)) {
+          component.addDecorator(new Layout(options.layout.name))
+        }
 
-      let skipMount = s.get('skipMount') ?? false
-      skipMount = Array.isArray(skipMount) ? skipMount[0] : skipMount
-      if (!skipMount) {
-        //@ts-ignore
-        if (typeof component.mount === 'function') {
-          const resolvedParams = [params]
+        for (const [memoKey, value] of Object.entries(routeMemo)) {
+          context.addMemo(memoKey, value)
+        }
 
-          const isResourceModel = (value: any) => {
-            if (!value) {
-              return false
-            }
+        const s = store(component)
 
-            return (
-              typeof value['findForRequest'] === 'function' ||
-              typeof value['findOrFail'] === 'function' ||
-              typeof value['findRelatedForRequest'] === 'function'
-            )
-          }
+        try {
+          await this.trigger('mount', component, params, options.key)
+          await this.callLifecycleHook(component, 'boot')
 
-          if (component['bindings'] && component['bindings']['mount']) {
-            for (let index = 1; index < component['bindings']['mount'].length; index++) {
-              const binding = component['bindings']['mount'][index]
+          let skipMount = s.get('skipMount') ?? false
+          skipMount = Array.isArray(skipMount) ? skipMount[0] : skipMount
+          if (!skipMount) {
+            //@ts-ignore
+            if (typeof component.mount === 'function') {
+              const resolvedParams = [params]
+
+              if (component['bindings'] && component['bindings']['mount']) {
+                for (let index = 1; index < component['bindings']['mount'].length; index++) {
+                  const binding = component['bindings']['mount'][index]
+                  resolvedParams.push(await resolveBinding(this.app, binding, params[binding.name]))
+                }
+              }
 
-              if (isResourceModel(binding.type)) {
-                resolvedParams.push(await binding.type.findOrFail(params[binding.name]))
-              } else {
-                resolvedParams.push(params[binding.name])
+              //@ts-ignore
+              await component.mount(...resolvedParams)
+            } else {
+              for (let paramKey in params) {
+                if (paramKey in component) {
+                  component[paramKey] = params[paramKey]
+                }
               }
             }
           }
 
-          //@ts-ignore
-          await component.mount(...resolvedParams)
-        } else {
-          for (let paramKey in params) {
-            if (paramKey in component) {
-              component[paramKey] = params[paramKey]
-            }
-          }
+          await this.callLifecycleHook(component, 'booted')
+        } catch (error) {
+          await this.handleException(component, error)
         }
-      }
-
-      // pickup newely added props, like ts declared props
-      Livewire.setOrUpdateComponentView(component, ctx)
-      ;(await this.trigger('render', component, component.view, [])) as any
 
-      let content = (await this.render(component, '<div></div>')) || '<div></div>'
-      let html = await component.view.renderRaw(content)
+        // pickup newely added props, like ts declared props
+        Livewire.setOrUpdateComponentView(component, ctx)
+        ;(await this.trigger('render', component, component.view, [])) as any
 
-      await this.trigger('dehydrate', component, context)
-
-      let snapshot = await this.snapshot(component, context)
+        let html = this.insertAttributesIntoHtmlRoot('<div></div>', {
+          'wire:id': component.getId(),
+        })
+        try {
+          let content = (await this.render(component, '<div></div>')) || '<div></div>'
+          html = await component.view.renderRaw(content)
+          await this.callLifecycleHook(component, 'rendered', component.view, html)
+        } catch (error) {
+          await this.handleException(component, error)
+        }
 
-      for (const key of Object.keys(params)) {
-        if (key.startsWith('@')) {
-          let value = params[key]
-          let fullEvent = string.dashCase(key.replace('@', ''))
-          let attributeKey = 'x-on:' + fullEvent
-          let attributeValue = `$wire.$parent.${value}`
+        await this.callLifecycleHook(component, 'dehydrate')
+        await this.callPropertyLifecycleHooks(component, 'dehydrate')
+        await this.trigger('dehydrate', component, context)
+
+        let snapshot = await this.snapshot(component, context)
+
+        for (const key of Object.keys(params)) {
+          if (key.startsWith('@')) {
+            let value = params[key]
+            let fullEvent = string.dashCase(key.replace('@', ''))
+            let attributeKey = 'x-on:' + fullEvent
+            let attributeValue = `$wire.$parent.${value}`
+
+            html = this.insertAttributesIntoHtmlRoot(html, {
+              [attributeKey]: attributeValue,
+            })
+          } else if (key.startsWith('wire:')) {
+            let value = params[key]
+            let attributeKey = key
+            let attributeValue = value
+
+            html = this.insertAttributesIntoHtmlRoot(html, {
+              [attributeKey]: attributeValue,
+            })
+          }
+        }
 
+        let binding = s.get('bindings')[0]
+        if (binding) {
           html = this.insertAttributesIntoHtmlRoot(html, {
-            [attributeKey]: attributeValue,
+            'x-modelable': `$wire.${binding.inner}`,
           })
-        } else if (key.startsWith('wire:')) {
-          let value = params[key]
-          let attributeKey = key
-          let attributeValue = value
+        }
 
-          html = this.insertAttributesIntoHtmlRoot(html, {
-            [attributeKey]: attributeValue,
-          })
+        if (key !== undefined) {
+          html = this.insertAttributesIntoHtmlRoot(html, { 'wire:key': key })
         }
-      }
 
-      let binding = s.get('bindings')[0]
-      if (binding) {
         html = this.insertAttributesIntoHtmlRoot(html, {
-          'x-modelable': `$wire.${binding.inner}`,
+          'wire:snapshot': JSON.stringify(snapshot),
+          'wire:effects': JSON.stringify(context.effects),
         })
-      }
 
-      html = this.insertAttributesIntoHtmlRoot(html, {
-        'wire:snapshot': JSON.stringify(snapshot),
-        'wire:effects': JSON.stringify(context.effects),
-      })
+        let decorators = component.getDecorators()
+        let layout = decorators.find((d) => d instanceof Layout) as Layout
+
+        // TODO: find a better way to do this
+        if (layout) {
+          let layoutName = layout.name.replaceAll('.', '/')
+          let layoutProps = layout.props
+          html = await component.view.renderRaw(
+            `@component(layoutName, layoutProps)\n${html}\n@end`,
+            {
+              layoutProps,
+              layoutName,
+            }
+          )
+        }
 
-      let decorators = component.getDecorators()
-      let layout = decorators.find((d) => d instanceof Layout) as Layout
-
-      // TODO: find a better way to do this
-      if (layout) {
-        let layoutName = layout.name.replaceAll('.', '/')
-        let layoutProps = layout.props
-        html = await component.view.renderRaw(
-          `@component(layoutName, layoutProps)\n${html}\n@end`,
-          {
-            layoutProps,
-            layoutName,
-          }
-        )
+        return html
+      } finally {
+        await this.destroyComponent(component, context)
       }
-
-      return html
     })
+
+    if (parent && key !== undefined) {
+      const tag = SupportNestingComponents.extractTagName(html)
+      SupportNestingComponents.setParentChild(parent, key, tag, component.getId())
+    }
+
+    return html
   }
 
   async fromSnapshot(ctx: HttpContext, snapshot: ComponentSnapshot) {
@@ -634,21 +694,9 @@ export default class Livewire {
     this.checksum.verify(snapshot)
     debug('fromSnapshot: checksum verified for %s', snapshot.memo.name)
 
-    const router = await this.app.container.make('router')
-    const path = snapshot.memo.path
-    const route = path ? router.find(path) : null
-
-    if (route) {
-      await route.middleware.runner().run((handler, next) => {
-        return typeof handler !== 'function' && !!handler.name
-          ? handler.handle(ctx.containerResolver, ctx, next, handler.args)
-          : next()
-      })
+    await this.replayRouteMiddleware(ctx, snapshot.memo)
 
-      if (ctx.response.getStatus() >= 300) {
-        throw errors.E_HTTP_REQUEST_ABORTED.invoke(ctx.response.getBody(), ctx.response.getStatus())
-      }
-    }
+    await restoreLocale(this.app, ctx, snapshot.memo.locale)
 
     let data = snapshot['data']
     let name = snapshot['memo']['name']
@@ -662,6 +710,91 @@ export default class Livewire {
     return [component, context] as [Component, ComponentContext]
   }
 
+  /**
+   * Memo of the route a component is mounted on. Children mounted while
+   * their parent is updated keep the route of their parent
+   */
+  protected routeMemo(ctx: HttpContext): Pick<ComponentMemo, 'path' | 'method' | 'route'> {
+    const parent = getLivewireContext()?.context?.memo
+
+    if (parent?.path !== undefined) {
+      const { path, method, route } = parent
+      return route ? { path, method, route } : { path, method }
+    }
+
+    const memo: Pick<ComponentMemo, 'path' | 'method' | 'route'> = {
+      path: ctx.request.url(),
+      method: ctx.request.method(),
+    }
+
+    if (ctx.route) {
+      memo.route = {
+        name: ctx.route.name,
+        pattern: ctx.route.pattern,
+        domain: ctx.route.domain,
+        method: ctx.route.methods[0],
+        params: { ...ctx.params },
+      }
+    }
+
+    return memo
+  }
+
+  /**
+   * Find the route a component was mounted on, by name, then by pattern.
+   * Snapshots without a route memo are matched with their path.
+   */
+  protected findRoute(router: HttpRouterService, memo: ComponentMemo) {
+    const method = memo.method ?? 'GET'
+
+    if (!memo.route) {
+      return memo.path ? router.match(memo.path.split('?')[0], method, false) : null
+    }
+
+    // The method the route is registered with, not the method of the request it was matched on
+    const { name, pattern, domain, params, method: routeMethod = method } = memo.route
+    const route =
+      (name ? router.find(name, domain, routeMethod, true) : null) ??
+      router.find(pattern, domain, routeMethod)
+
+    return route ? { route, params } : null
+  }
+
+  /**
+   * Run the middleware of the route a component was mounted on, with the
+   * params of the original request, as the router would. Updates are
+   * aborted when a middleware doesn't let the request through.
+   */
+  protected async replayRouteMiddleware(ctx: HttpContext, memo: ComponentMemo) {
+    const router = await this.app.container.make('router')
+    const matched = this.findRoute(router, memo)
+
+    if (!matched) {
+      return
+    }
+
+    debug('replaying middleware of route %s for %s', matched.route.pattern, memo.name)
+
+    ctx.route = matched.route
+    ctx.params = { ...matched.params }
+
+    let passed = false
+    await matched.route.middleware
+      .runner()
+      .finalHandler(async () => {
+        passed = true
+      })
+      .run((middleware, next) => {
+        return typeof middleware === 'function'
+          ? middleware(ctx, next)
+          : middleware.handle(ctx.containerResolver, ctx, next, middleware.args)
+      })
+
+    if (!passed || ctx.response.getStatus() >= 300) {
+      throw errors.E_HTTP_REQUEST_ABORTED.invoke(ctx.response.getBody(), ctx.response.getStatus())
+    }
+  }
+
   async new(ctx: HttpContext, name: string, id: string | null = null) {
     debug('new: creating component=%s id=%s', name, id || 'auto-generated')
     let LivewireComponent: ComponentConstructor
@@ -670,62 +803,25 @@ export default class Livewire {
       debug('new: found cached component class for %s', name)
       LivewireComponent = this.components.get(name)!
     } else {
-      let jsPath = name
-        .split('.')
-        .map((s) => string.snakeCase(s))
-        .join('/')
-
-      const livewirePaths = [
-        this.app.makeURL(`./app/livewire/${jsPath}.js`),
-        this.app.makeURL(`./app/livewire/${jsPath}/index.js`),
-        this.app.makeURL(`./app/livewire/${jsPath}.ts`),
-        this.app.makeURL(`./app/livewire/${jsPath}.tsx`),
-        this.app.makeURL(`./app/livewire/${jsPath}/index.ts`),
-        this.app.makeURL(`./app/livewire/${jsPath}/index.tsx`),
-      ]
-
-      for (const livewirePath of livewirePaths) {
-        if (existsSync(fileURLToPath(livewirePath))) {
-          LivewireComponent = await import(livewirePath.href.replace(/\.(ts|tsx)$/, '.js')).then(
-            (m) => m.default
-          )
-          if (this.app.inProduction) {
-            this.components.set(name, LivewireComponent)
-          }
-          break
-        }
-      }
+      const entry = this.discovery.find(name)
+      const component =
+        entry?.type === 'class'
+          ? await import(this.discovery.makeURL(entry).href.replace(/\.(ts|tsx)$/, '.js')).then(
+              (m) => m.default as ComponentConstructor
+            )
+          : entry?.type === 'view'
+            ? await this.buildSingleFileComponent(name, this.discovery.makeURL(entry).href)
+            : undefined
 
-      //@ts-ignore
-      if (!LivewireComponent) {
-        let viewPath = name
-          .split('.')
-          .map((s) => string.snakeCase(s))
-          .join('/')
-
-        const livewireViewPaths = [
-          this.app.makeURL(`./resources/views/livewire/${viewPath}.edge`),
-          this.app.makeURL(`./resources/views/livewire/${viewPath}/index.edge`),
-        ]
-
-        for (const livewireViewPath of livewireViewPaths) {
-          if (existsSync(fileURLToPath(livewireViewPath))) {
-            let component = await this.buildSingleFileComponent(name, livewireViewPath.href)
-
-            if (component) {
-              LivewireComponent = component
-              if (this.app.inProduction && LivewireComponent) {
-                this.components.set(name, LivewireComponent)
-              }
-              break
-            }
-          }
-        }
+      if (!component) {
+        throw new Error(`Livewire component not found for ${name}`)
       }
 
-      //@ts-ignoreß
-      if (!LivewireComponent) {
-        throw new Error(`Livewire component not found for ${name}`)
+      debug('new: resolved component=%s from %s', name, entry!.path)
+      LivewireComponent = component
+
+      if (this.app.inProduction) {
+        this.components.set(name, LivewireComponent)
       }
     }
 
@@ -741,12 +837,7 @@ export default class Livewire {
     })
     debug('new: instantiated component=%s with id=%s', name, componentId)
 
-    let viewPath = name
-      .split('.')
-      .map((s) => string.dashCase(s))
-      .join('/')
-
-    component.setViewPath(`livewire/${viewPath}`)
+    component.setViewPath(this.discovery.viewPath(name))
 
     Livewire.setOrUpdateComponentView(component, ctx)
 
@@ -809,6 +900,11 @@ export default class Livewire {
 
     const synth = this.propertySynth(meta['s'], context, path)
 
+    // Encrypted properties hold a dehydrated value, hydrated once decrypted
+    if (synth instanceof EncryptedSynth) {
+      return await this.hydrate(await synth.hydrate(value, meta, null), context, path)
+    }
+
     return await synth.hydrate(value, meta, async (name: string, child: any) => {
       return await this.hydrate(child, context, `${path}.${name}`)
     })
@@ -848,50 +944,83 @@ export default class Livewire {
     })
 
     return await livewireContext.run({ dataStore, context, features, ctx }, async () => {
-      let data = snapshot.data
-      let memo = snapshot.memo
-      let path = snapshot.memo.path ?? ''
-
-      context.addMemo('path', path)
+      try {
+        let data = snapshot.data
+        let memo = snapshot.memo
 
-      await this.trigger('hydrate', component, memo, context)
+        context.addMemo('path', memo.path ?? '')
+        context.addMemo('method', memo.method ?? 'GET')
+        if (memo.route) {
+          context.addMemo('route', memo.route)
+        }
 
-      await this.updateProperties(component, updates, data, context)
+        try {
+          await this.trigger('hydrate', component, memo, context)
+          await this.callLifecycleHook(component, 'boot')
+          await this.callLifecycleHook(component, 'hydrate')
+          await this.callPropertyLifecycleHooks(component, 'hydrate')
+          await this.callLifecycleHook(component, 'booted')
+
+          // The parent stopped rendering this child earlier in the request, so
+          // it is gone from the page: nothing to update, call or render
+          if (SupportNestingComponents.isRemoved(component)) {
+            store(component).set('removed', true)
+            component.skipRender()
+          } else {
+            await this.updateProperties(component, updates, data, context)
+          }
+        } catch (error) {
+          await this.handleException(component, error)
+        }
 
-      await this.callMethods(component, calls, context)
+        if (!store(component).has('removed')) {
+          await this.callMethods(component, calls, context)
+        }
 
-      // handle declare properties, they should be set after mount
-      Livewire.setOrUpdateComponentView(component, ctx)
+        // handle declare properties, they should be set after mount
+        Livewire.setOrUpdateComponentView(component, ctx)
 
-      let html = await this.render(component)
-      html = await component.view.renderRaw(html || '')
+        try {
+          let html = await this.render(component)
+          html = await component.view.renderRaw(html || '')
 
-      if (html) {
-        context.addEffect('html', html)
-      }
+          if (html) {
+            await this.callLifecycleHook(component, 'rendered', component.view, html)
+            context.addEffect('html', html)
+          }
+        } catch (error) {
+          await this.handleException(component, error)
+        }
 
-      await this.trigger('dehydrate', component, context)
+        await this.callLifecycleHook(component, 'dehydrate')
+        await this.callPropertyLifecycleHooks(component, 'dehydrate')
+        await this.trigger('dehydrate', component, context)
 
-      let newSnapshot = await this.snapshot(component, context)
+        let newSnapshot = await this.snapshot(component, context)
 
-      return [newSnapshot, context.effects] as [ComponentSnapshot, ComponentEffects]
+        return [newSnapshot, context.effects] as [ComponentSnapshot, ComponentEffects]
+      } finally {
+        await this.destroyComponent(component, context)
+      }
     })
   }
 
   /**
-   * Get public methods from a component (excluding internal ones)
-   * PHP parity: getPublicMethods
+   * Get public methods defined by the component class, excluding the
+   * methods of `Component` and its mixins (`download`, `authorize`, ...)
+   * PHP parity: getPublicMethodsDefinedBySubClass
    */
   protected getPublicMethods(component: Component): string[] {
     const methods: string[] = []
     let prototype = Object.getPrototypeOf(component)
 
-    while (prototype && prototype !== Object.prototype) {
+    while (prototype && prototype !== Component.prototype && prototype !== Object.prototype) {
       const props = Object.getOwnPropertyNames(prototype)
 
       for (const prop of props) {
         if (prop === 'constructor') continue
         if (prop === 'render') continue
+        if (Livewire.isLifecycleHook(prop)) continue
         if (prop.startsWith('_')) continue
 
         const descriptor = Object.getOwnPropertyDescriptor(prototype, prop)
@@ -909,6 +1038,13 @@ export default class Livewire {
     methods.push('$refresh')
     methods.push('$commit')
     methods.push('$set')
+    methods.push('__destroy')
+
+    // Internal upload methods (PHP parity: WithFileUploads)
+    methods.push('_startUpload')
+    methods.push('_finishUpload')
+    methods.push('_uploadErrored')
+    methods.push('_removeUpload')
 
     return methods
   }
@@ -946,86 +1082,171 @@ export default class Livewire {
           )
         }
 
-        let earlyReturnCalled = false
-        let earlyReturn: any = null
-        const returnEarly = (returnVal: any = null) => {
-          earlyReturnCalled = true
-          earlyReturn = returnVal
-        }
+        returns.push(await this.callMethod(component, method, params, context, call.metadata))
+      } catch (error) {
+        debug('callMethods: ERROR in method=%s error=%O', call['method'], error)
+        await this.handleException(component, error)
+      }
+    }
 
-        const callbacks = await this.trigger(
-          'call',
-          component,
-          method,
-          params,
-          context,
-          returnEarly
-        )
+    context.addEffect('returns', returns)
+    return returns
+  }
 
-        if (earlyReturnCalled) {
-          // Execute all callbacks returned by hooks
-          for (const callback of callbacks) {
-            if (typeof callback === 'function') {
-              await callback(earlyReturn)
-            }
-          }
-          returns.push(earlyReturn)
+  /**
+   * Run a method called by the client. Denied `@authorize` abilities and
+   * exceeded `@throttle` limits stop the call before any hook runs.
+   */
+  protected async callMethod(
+    component: Component,
+    method: string,
+    params: any[],
+    context: ComponentContext,
+    metadata?: any
+  ): Promise<any> {
+    await SupportAuthorization.authorizeCall(component, method)
+    await SupportThrottling.throttleCall(component, method)
+
+    let earlyReturnCalled = false
+    let earlyReturn: any = null
+    const returnEarly = (returnVal: any = null) => {
+      earlyReturnCalled = true
+      earlyReturn = returnVal
+    }
 
-          continue
-        }
+    const callbacks = await this.trigger(
+      'call',
+      component,
+      method,
+      params,
+      context,
+      returnEarly,
+      metadata
+    )
 
-        if (method === '__dispatch') {
-          const features = getLivewireContext()!.features
-          let result = await features[1].callCall('__dispatch', params, returnEarly)
-          returns.push(result)
-        } else if (method === '__lazyLoad') {
-          // Handled by SupportLazyLoading via trigger('call', ...) above
-          // If we reach here, returnEarly wasn't called - just push null
-          returns.push(null)
-        } else if (method === '$refresh') {
-          // $refresh is a special method that just triggers a re-render
-          // No actual method call needed - the component will be re-rendered at the end of the request
-          returns.push(null)
-        } else if (method === '$commit') {
-          // $commit is similar to $refresh - just triggers a re-render
-          returns.push(null)
-        } else if (method === '$set') {
-          // $set(property, value) - sets a property value
-          const [property, value] = params
-          if (property in component) {
-            //@ts-ignore
-            component[property] = value
-          }
-          returns.push(null)
-        } else {
-          //@ts-ignore
-          let result = await component[method](...params)
-          returns.push(result)
-        }
-      } catch (error) {
-        debug('callMethods: ERROR in method=%s error=%O', call['method'], error)
-        console.error(error)
-        if ((error as any).code === 'E_VALIDATION_ERROR') {
-          //@ts-ignore
-          component.ctx.session?.flashValidationErrors(error)
-        } else if ((error as any).code === 'E_INVALID_CREDENTIALS') {
-          //@ts-ignore
-          const session = component.ctx.session
-
-          if (session) {
-            session.flashExcept(['_csrf', '_method', 'password', 'password_confirmation'])
-            session.flashErrors({ [(error as any).code!]: (error as any).message })
-          } else {
-            throw error
-          }
-        } else {
-          throw error
+    if (earlyReturnCalled) {
+      // Execute all callbacks returned by hooks
+      for (const callback of callbacks) {
+        if (typeof callback === 'function') {
+          await callback(earlyReturn)
         }
       }
+      return earlyReturn
     }
 
-    context.addEffect('returns', returns)
-    return returns
+    if (method === '__dispatch') {
+      // Listeners are called like actions, behind their own guards and hooks
+      const [name, args] = params
+      for (const listener of SupportEvents.getListenerMethods(component, name)) {
+        await this.callMethod(component, listener, [args], context)
+      }
+      return null
+    } else if (method === '__lazyLoad') {
+      // Handled by SupportLazyLoading via trigger('call', ...) above
+      // If we reach here, returnEarly wasn't called - just push null
+      return null
+    } else if (method === '$refresh') {
+      // $refresh is a special method that just triggers a re-render
+      // No actual method call needed - the component will be re-rendered at the end of the request
+      return null
+    } else if (method === '__destroy') {
+      // The client reports the component was removed from the page, so
+      // there is nothing to render
+      store(component).set('removed', true)
+      component.skipRender()
+      return null
+    } else if (method === '$commit') {
+      // $commit is similar to $refresh - just triggers a re-render
+      return null
+    } else if (method === '$set') {
+      // $set(property, value) - sets a property value
+      const [property, value] = params
+      if (property in component) {
+        //@ts-ignore
+        component[property] = value
+      }
+      return null
+    } else {
+      params = await resolveActionParams(this.app, component['bindings']?.[method], params)
+
+      //@ts-ignore
+      return await component[method](...params)
+    }
+  }
+
+  /**
+   * Check if a method is a lifecycle hook, which can't be called from the client
+   * PHP parity: SupportLifecycleHooks::call() DirectlyCallingLifecycleHooksNotAllowedException
+   */
+  static isLifecycleHook(method: string) {
+    return (
+      ['boot', 'booted', 'rendering', 'rendered', 'exception', 'destroy'].includes(method) ||
+      /^(mount|hydrate|dehydrate|updating|updated)([A-Z].*)?$/.test(method)
+    )
+  }
+
+  /**
+   * Call an optional lifecycle method of the component
+   * PHP parity: SupportLifecycleHooks::callHook($name, $params)
+   */
+  protected async callLifecycleHook(component: Component, method: string, ...params: any[]) {
+    if (typeof component[method] === 'function') {
+      debug('callLifecycleHook: %s on component=%s', method, component.getName())
+      await component[method](...params)
+    }
+  }
+
+  /**
+   * Call `hydrateFoo` / `dehydrateFoo` for every property of the component
+   */
+  protected async callPropertyLifecycleHooks(
+    component: Component,
+    prefix: 'hydrate' | 'dehydrate'
+  ) {
+    for (const property of Object.keys(component)) {
+      if (['app', 'ctx'].includes(property) || typeof component[property] === 'function') continue
+
+      await this.callLifecycleHook(
+        component,
+        Livewire.propertyHookName(prefix, property),
+        component[property]
+      )
+    }
+  }
+
+  /**
+   * Tear the component down once the request is done with it, whether it
+   * succeeded or not. `removed` is true when the component is no longer on
+   * the page, because its parent stopped rendering it or the client
+   * reported it.
+   */
+  protected async destroyComponent(component: Component, context: ComponentContext) {
+    const options = { removed: store(component).has('removed') }
+
+    await this.trigger('destroy', component, context, options)
+    await this.callLifecycleHook(component, 'destroy', options)
+  }
+
+  /**
+   * Send an error through the `exception` hook of the features and the
+   * component. The error is rethrown unless a handler stops its propagation.
+   * PHP parity: trigger('exception', $component, $e, $stopPropagation)
+   */
+  async handleException(component: Component, error: unknown) {
+    let shouldPropagate = true
+    const stopPropagation = () => {
+      shouldPropagate = false
+    }
+
+    await this.trigger('exception', component, error, stopPropagation)
+
+    if (typeof component.exception === 'function') {
+      await component.exception(error, stopPropagation)
+    }
+
+    if (shouldPropagate) {
+      throw error
+    }
   }
 
   getSynthesizerByKey(key: string, context: ComponentContext, path: string): Synth {
@@ -1178,8 +1399,20 @@ export default class Livewire {
       data[key] = component[key]
     }
 
+    const encrypted = component
+      .getDecorators()
+      .filter((d) => d instanceof Encrypted)
+      .map((d) => d.name)
+
     for (let key in data) {
       data[key] = await this.dehydrate(data[key], context, key)
+
+      if (this.config.encryptData || encrypted.includes(key)) {
+        const synth = new EncryptedSynth(context, key, this.app)
+        const [value, meta] = await synth.dehydrate(data[key])
+
+        data[key] = [value, { ...meta, s: synth.getKey() }]
+      }
     }
 
     return data
@@ -1219,14 +1452,12 @@ export default class Livewire {
       memo: {
         id: component.getId(),
         name: component.getName(),
-        path: component.getName().toLowerCase(),
-        method: 'GET',
-        // TODO: support nesting components
-        children: [],
+        ...this.routeMemo(component.ctx),
+        children: {},
         scripts: [],
         assets: [],
         errors: {} as Record<string, string[]>,
-        locale: 'en',
+        locale: getLocale(component.ctx),
         ...context.memo,
       },
     }
@@ -1248,7 +1479,7 @@ export default class Livewire {
 
       let segments = key.split('.')
       let property = segments[0]
-      if (!(property in component)) return
+      if (!Livewire.isPublicProperty(component, property)) return
 
       let child = updates[key]
 
@@ -1261,58 +1492,104 @@ export default class Livewire {
         continue
       }
 
-      if (typeof component['updating'] === 'function') {
-        await component['updating'](property, child)
-      }
+      await this.updateProperty(component, key, child, context)
+    }
+  }
 
-      let updatingPropMethod = `updating${string.titleCase(property)}`
+  /**
+   * Set a property, or a nested path like `form.name`, with the `update`
+   * hooks of the features (locked, reactive, validation, ...) and the
+   * `updating` / `updated` hooks of the component
+   */
+  async updateProperty(component: Component, key: string, child: any, context: ComponentContext) {
+    let segments = key.split('.')
+    let property = segments[0]
 
-      if (typeof component[updatingPropMethod] === 'function') {
-        await component[updatingPropMethod](child)
-      }
+    if (!Livewire.isPublicProperty(component, property)) {
+      throw new Error(
+        `Property [${property}] does not exist or is not public on component ${component.getName()}`
+      )
+    }
 
-      if (segments.length > 1) {
-        const propertyValue = component[property]
-        component[property] = await this.recursivelySetValue(
-          property,
-          propertyValue,
-          child,
-          segments.slice(1),
-          0,
-          context
-        )
-      } else {
-        const currentValue = component[property]
-        const isForm =
-          currentValue &&
-          typeof currentValue === 'object' &&
-          currentValue.constructor.name.includes('Form')
-
-        if (isForm) {
-          if (child && typeof child === 'object') {
-            for (const [childKey, childValue] of Object.entries(child)) {
-              currentValue[childKey] = childValue
-            }
+    if (typeof component['updating'] === 'function') {
+      await component['updating'](property, child)
+    }
+
+    let updatingPropMethod = Livewire.propertyHookName('updating', property)
+
+    if (typeof component[updatingPropMethod] === 'function') {
+      await component[updatingPropMethod](child)
+    }
+
+    // Hooks run before the value is set, so locked and reactive props are never written
+    const finish = await this.trigger('update', component, property, key, child)
+
+    if (segments.length > 1) {
+      const propertyValue = component[property]
+      component[property] = await this.recursivelySetValue(
+        property,
+        propertyValue,
+        child,
+        segments.slice(1),
+        0,
+        context
+      )
+    } else {
+      const currentValue = component[property]
+      const isForm =
+        currentValue &&
+        typeof currentValue === 'object' &&
+        currentValue.constructor.name.includes('Form')
+
+      if (isForm) {
+        if (child && typeof child === 'object') {
+          for (const [childKey, childValue] of Object.entries(child)) {
+            currentValue[childKey] = childValue
           }
-        } else {
-          component[property] = child
         }
+      } else {
+        component[property] = child
       }
+    }
 
-      await this.trigger('update', component, key, key, child)
-
-      if (typeof component['updated'] === 'function') {
-        await component['updated'](property, child)
+    // Features can return a callback to run once the value is set
+    for (const callback of finish) {
+      if (typeof callback === 'function') {
+        await callback(child)
       }
+    }
 
-      let updatedPropMethod = `updated${string.titleCase(property)}`
+    if (typeof component['updated'] === 'function') {
+      await component['updated'](property, child)
+    }
 
-      if (typeof component[updatedPropMethod] === 'function') {
-        await component[updatedPropMethod](child)
-      }
+    let updatedPropMethod = Livewire.propertyHookName('updated', property)
+
+    if (typeof component[updatedPropMethod] === 'function') {
+      await component[updatedPropMethod](child)
     }
   }
 
+  /**
+   * Name of the hook of a property, like `updatedFirstName` for both
+   * `firstName` and `first_name`
+   */
+  static propertyHookName(prefix: string, property: string) {
+    return `${prefix}${string.pascalCase(property)}`
+  }
+
+  /**
+   * Check if the browser may update a property: own, non-internal
+   * properties of the component
+   */
+  static isPublicProperty(component: Component, property: string) {
+    return (
+      Object.hasOwn(component, property) &&
+      !property.startsWith('_') &&
+      !['app', 'ctx', 'view'].includes(property)
+    )
+  }
+
   async render(component: Component, defaultValue?: string) {
     debug('rendering component %s', component.getName())
     // let isRedirect = (store(component).get('redirect') ?? []).length > 0
@@ -1350,6 +1627,13 @@ export default class Livewire {
     }
 
     let finish = (await this.trigger('render', component, component.view, [])) as any
+    await this.callLifecycleHook(
+      component,
+      'rendering',
+      component.view,
+      Livewire.generateComponentData(component)
+    )
+
     let html = (await component.render()) || defaultValue || '<div></div>'
 
     html = this.insertAttributesIntoHtmlRoot(html, {
@@ -1371,6 +1655,30 @@ export default class Livewire {
     return this.components.set(name, component)
   }
 
+  /**
+   * Register a namespace of components, resolved as `namespace::name`. Views
+   * of the namespace are mounted as an Edge disk with the same name.
+   *
+   * @example
+   * ```ts
+   * livewire.addNamespace('admin', {
+   *   classes: 'app/admin/livewire',
+   *   views: 'resources/views/admin/livewire',
+   * })
+   *
+   * // <livewire:admin::users.table />
+   * ```
+   */
+  addNamespace(namespace: string, directories: ComponentNamespace) {
+    this.discovery.addNamespace(namespace, directories)
+
+    if (directories.views) {
+      edge.mount(namespace, this.discovery.resolvePath(directories.views))
+    }
+
+    return this
+  }
+
   insertAttributesIntoHtmlRoot(html: string, attributes: { [key: string]: string }): string {
     return insertAttributesIntoHtml(html, attributes)
   }
@@ -1387,9 +1695,14 @@ export default class Livewire {
       return
     }
 
-    const parts = name.split('.')
-    const path = this.app.tmpPath('/livewire/', ...parts.slice(0, -1))
-    const filePath = path + parts[parts.length - 1] + '.js'
+    // Namespaced components get their own directory, so `admin::users.table`
+    // and `admin.users.table` are not compiled to the same module
+    const [namespace, componentName] = name.includes('::') ? name.split('::') : [null, name]
+    const parts = componentName.split('.')
+    const path = namespace
+      ? this.app.tmpPath('livewire', '__ns', namespace, ...parts.slice(0, -1))
+      : this.app.tmpPath('livewire', ...parts.slice(0, -1))
+    const filePath = join(path, `${parts[parts.length - 1]}.js`)
 
     await mkdir(path, {
       recursive: true,
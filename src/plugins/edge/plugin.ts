@@ -1,17 +1,29 @@
 import type { PluginFn } from 'edge.js/types'
 import type { ApplicationService } from '@adonisjs/core/types'
-import { livewireTag, livewireStylesTag, livewireScriptsTag, scriptTag, assetsTag } from './tags.js'
+import {
+  livewireTag,
+  livewireStylesTag,
+  livewireScriptsTag,
+  scriptTag,
+  assetsTag,
+  islandTag,
+} from './tags.js'
 import { processLivewireComponents } from './processor.js'
 import Livewire from '../../livewire.js'
 import debug from '../../debug.js'
 import { getLivewireContext } from '../../store.js'
+import { SupportNestingComponents } from '../../features/support_nesting_components/support_nesting_components.js'
+import {
+  SupportIslands,
+  type IslandOptions,
+} from '../../features/support_islands/support_islands.js'
 
 type LivewireInstance = InstanceType<typeof Livewire>
 
 /**
  * Edge.js plugin that registers Livewire tags and global functions
  *
- * This plugin adds the @livewire, @livewireStyles, @livewireScripts, @script, and @assets tags
+ * This plugin adds the @livewire, @livewireStyles, @livewireScripts, @script, @assets and @island tags
  * to Edge templates, along with global helper functions for rendering components.
  *
  * @param app - The AdonisJS application service
@@ -57,14 +69,43 @@ export const edgePluginLivewire = (
      * during a Livewire request.
      */
     edge.global('livewire', {
-      mount: async (name: string, params?: Record<string, any>, options?: any) => {
+      mount: async (
+        name: string,
+        params?: Record<string, any>,
+        options?: any,
+        deterministicKey?: string
+      ) => {
         const context = getLivewireContext()
 
         if (!context?.ctx) {
           throw new Error('Cannot access http context. ctx must be available in livewireContext.')
         }
 
-        return await livewire.mount(context.ctx, name, params || {}, options || {})
+        options = { ...options }
+
+        /**
+         * Children without an explicit key get one derived from the tag
+         * location, so the parent can recognize them on the next update
+         */
+        const parent = context.context?.component
+        if (options.key === undefined && parent && deterministicKey) {
+          options.key = SupportNestingComponents.generateKey(parent, deterministicKey)
+        }
+
+        return await livewire.mount(context.ctx, name, params || {}, options)
+      },
+
+      /**
+       * Render an island of the component being rendered, used by the `@island` tag
+       */
+      island: async (name: string, options: IslandOptions, render: () => Promise<string>) => {
+        const component = getLivewireContext()?.context?.component
+
+        if (!component) {
+          throw new Error('The @island tag can only be used inside a Livewire component.')
+        }
+
+        return await SupportIslands.renderIsland(livewire, component, name, options ?? {}, render)
       },
     })
 
@@ -76,6 +117,7 @@ export const edgePluginLivewire = (
     edge.registerTag(livewireScriptsTag(version))
     edge.registerTag(scriptTag)
     edge.registerTag(assetsTag)
+    edge.registerTag(islandTag)
 
     /**
      * Register processor for <livewire:.../> syntax
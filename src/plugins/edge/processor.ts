@@ -11,10 +11,13 @@
  *
  * {{-- Gets converted to: --}}
  * @livewire('counter', { count: '5' })
+ *
+ * {{-- Namespaced components: --}}
+ * <livewire:admin::users.table />
  * ```
  */
 export function processLivewireComponents(raw: string): string {
-  let regex = /<livewire:([a-zA-Z0-9\.\-]+)([^>]*)\/>/g
+  let regex = /<livewire:([a-zA-Z0-9\.\-:]+)([^>]*)\/>/g
 
   let matches = raw.match(regex)
 
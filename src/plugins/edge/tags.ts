@@ -4,6 +4,7 @@ import type {
   EdgeBufferContract,
   TagTokenContract,
 } from 'edge.js/types'
+import { createHash } from 'node:crypto'
 import string from '@adonisjs/core/helpers/string'
 import { getLivewireContext } from '../../store.js'
 import { store } from '../../store.js'
@@ -34,6 +35,18 @@ export const livewireTag: TagContract = {
       parser
     )
 
+    /**
+     * Stable key for this tag, so children rendered without an explicit
+     * `key` can still be matched against the previous render
+     */
+    const deterministicKey = JSON.stringify(
+      'lw-' +
+        createHash('md5')
+          .update(`${token.filename}:${token.loc.start.line}:${token.loc.start.col}`)
+          .digest('hex')
+          .slice(0, 8)
+    )
+
     if (parsed.expressions) {
       const componentClass = parser.utils.stringify(parsed.expressions[0])
       const componentParams = parsed.expressions[1]
@@ -43,7 +56,7 @@ export const livewireTag: TagContract = {
         ? parser.utils.stringify(parsed.expressions[2])
         : '{}'
       buffer.outputExpression(
-        `await state.livewire.mount(${componentClass}, ${componentParams}, ${componentOptions})`,
+        `await state.livewire.mount(${componentClass}, ${componentParams}, ${componentOptions}, ${deterministicKey})`,
         token.filename,
         token.loc.start.line,
         false
@@ -51,7 +64,7 @@ export const livewireTag: TagContract = {
     } else {
       const componentClass = parser.utils.stringify(parsed)
       buffer.outputExpression(
-        `await state.livewire.mount(${componentClass})`,
+        `await state.livewire.mount(${componentClass}, {}, {}, ${deterministicKey})`,
         token.filename,
         token.loc.start.line,
         false
@@ -60,6 +73,59 @@ export const livewireTag: TagContract = {
   },
 }
 
+/**
+ * Edge tag that renders an island of a Livewire component
+ *
+ * Islands are re-rendered on their own when an action is fired from inside
+ * them, so only the island HTML is sent back to the browser.
+ *
+ * @example
+ * ```edge
+ * @island('stats')
+ *   <p>{{ visits }} visits</p>
+ *   <button wire:click="$refresh">Refresh</button>
+ * @end
+ *
+ * {{-- Load the island once it is visible --}}
+ * @island('chart', { lazy: true, placeholder: '<div>Loading...</div>' })
+ *   ...
+ * @end
+ * ```
+ */
+export const islandTag: TagContract = {
+  block: true,
+  tagName: 'island',
+  seekable: true,
+  compile(parser, buffer, token) {
+    const parsed = parser.utils.transformAst(
+      parser.utils.generateAST(token.properties.jsArg, token.loc, token.filename),
+      token.filename,
+      parser
+    )
+
+    const [name, options] = parsed.expressions ?? [parsed]
+    const islandName = parser.utils.stringify(name)
+    const islandOptions = options ? parser.utils.stringify(options) : '{}'
+
+    /**
+     * Island contents are compiled into a callback, so they are only
+     * rendered when the island is not lazy loaded
+     */
+    const islandBuffer = buffer.create(token.filename, { outputVar: 'island' })
+    for (const child of token.children) {
+      parser.processToken(child, islandBuffer)
+    }
+    islandBuffer.wrap('async () => {', '}')
+
+    buffer.outputExpression(
+      `await state.livewire.island(${islandName}, ${islandOptions}, ${islandBuffer.disableFileAndLineVariables().flush()})`,
+      token.filename,
+      token.loc.start.line,
+      false
+    )
+  },
+}
+
 /**
  * Edge tag that outputs Livewire CSS styles
  *
@@ -4,6 +4,10 @@ import type { ApplicationService } from '@adonisjs/core/types'
 
 import { LivewireHeaders } from '../../headers.js'
 import type { ComponentSnapshot, ComponentEffects } from '../../types.js'
+import {
+  SupportStreaming,
+  type StreamedContent,
+} from '../../features/support_streaming/support_streaming.js'
 
 /**
  * Parsed Livewire components with snapshot already parsed
@@ -630,15 +634,18 @@ export class TestableResponse {
    * Assert that a file download was triggered
    *
    * @param filename - Optional expected filename
+   * @param content - Optional expected file content
+   * @param contentType - Optional expected content type
    *
    * @example
    * ```js
    * response.livewire()
    *   .assertFileDownloaded()
    *   .assertFileDownloaded('report.pdf')
+   *   .assertFileDownloaded('users.csv', 'id,name\n')
    * ```
    */
-  assertFileDownloaded(filename?: string): this {
+  assertFileDownloaded(filename?: string, content?: string, contentType?: string): this {
     const effects = this.effects()
     const assert = this.#getAssert()
 
@@ -646,12 +653,28 @@ export class TestableResponse {
 
     if (filename) {
       assert.equal(
-        effects.download?.filename,
+        effects.download?.name,
         filename,
         `Downloaded filename does not match "${filename}"`
       )
     }
 
+    if (content !== undefined) {
+      assert.equal(
+        Buffer.from(effects.download!.content, 'base64').toString(),
+        content,
+        'Downloaded file content does not match'
+      )
+    }
+
+    if (contentType !== undefined) {
+      assert.equal(
+        effects.download?.contentType,
+        contentType,
+        `Downloaded content type does not match "${contentType}"`
+      )
+    }
+
     return this
   }
 
@@ -670,6 +693,68 @@ export class TestableResponse {
     return this
   }
 
+  // ==========================================
+  // Stream Assertions
+  // ==========================================
+
+  /**
+   * Get the chunks streamed by the component before the final response
+   *
+   * @example
+   * ```js
+   * response.livewire().streamed() // [{ name: 'answer', content: 'Hello', ... }]
+   * ```
+   */
+  streamed(): StreamedContent[] {
+    const id = this.id()
+    return parseStreamedResponse(this.#response).chunks.filter((chunk) => chunk.id === id)
+  }
+
+  /**
+   * Assert that content was streamed to a `wire:stream` target
+   *
+   * @param to - The `wire:stream` target name
+   * @param content - Optional expected content of the target once all chunks are applied
+   *
+   * @example
+   * ```js
+   * response.livewire()
+   *   .assertStreamed('answer')
+   *   .assertStreamed('answer', 'Hello World')
+   * ```
+   */
+  assertStreamed(to: string, content?: string): this {
+    const chunks = this.streamed().filter((chunk) => chunk.name === to)
+    const assert = this.#getAssert()
+
+    assert.isNotEmpty(chunks, `No content was streamed to "${to}"`)
+
+    if (content !== undefined) {
+      assert.equal(
+        SupportStreaming.resolveStreamedContent(chunks),
+        content,
+        `Content streamed to "${to}" does not match`
+      )
+    }
+
+    return this
+  }
+
+  /**
+   * Assert that nothing was streamed to a `wire:stream` target
+   *
+   * @example
+   * ```js
+   * response.livewire().assertNotStreamed('answer')
+   * ```
+   */
+  assertNotStreamed(to: string): this {
+    const chunks = this.streamed().filter((chunk) => chunk.name === to)
+    const assert = this.#getAssert()
+    assert.isEmpty(chunks, `Content was streamed to "${to}" but should not have been`)
+    return this
+  }
+
   // ==========================================
   // Return Value Assertions
   // ==========================================
@@ -917,8 +1002,8 @@ declare module '@japa/api-client' {
  * @throws Error when the response is not a Livewire response
  */
 function ensureIsLivewireResponse(response: ApiResponse): void {
-  const body = response.body()
-  const hasLivewireHeader = response.header('x-livewire')
+  const body = parseStreamedResponse(response).body
+  const hasLivewireHeader = response.header('x-livewire') || response.header(LivewireHeaders.Stream)
   const hasLivewireStructure =
     body && typeof body === 'object' && 'components' in body && Array.isArray(body.components)
 
@@ -929,6 +1014,31 @@ function ensureIsLivewireResponse(response: ApiResponse): void {
   }
 }
 
+/**
+ * Split a streamed response into the `wire:stream` chunks and the final
+ * JSON payload. Non streamed responses are returned as is.
+ */
+function parseStreamedResponse(response: ApiResponse): {
+  chunks: StreamedContent[]
+  body: any
+} {
+  if (!response.header(LivewireHeaders.Stream)) {
+    return { chunks: [], body: response.body() }
+  }
+
+  const chunks: StreamedContent[] = []
+  const rest = response.text().replace(/({"stream":true.*?"endStream":true})/g, (chunk) => {
+    chunks.push(JSON.parse(chunk).body)
+    return ''
+  })
+
+  try {
+    return { chunks, body: JSON.parse(rest) }
+  } catch {
+    return { chunks, body: null }
+  }
+}
+
 /**
  * Parse the Livewire response body and extract components
  */
@@ -1014,7 +1124,7 @@ export function livewireApiClient(_app: ApplicationService): PluginFn {
      */
     ApiResponse.macro('livewire', function (this: ApiResponse) {
       ensureIsLivewireResponse(this)
-      const components = parseLivewireResponse(this.body())
+      const components = parseLivewireResponse(parseStreamedResponse(this).body)
 
       if (!components || components.length === 0) {
         throw new Error('No Livewire components found in response')
@@ -0,0 +1,50 @@
+import { Synth } from './synth.js'
+
+/**
+ * EncryptedSynth - Wraps the dehydrated value of a property encrypted with
+ * `@encrypted` or the `encryptData` config option
+ *
+ * The value is encrypted with the Adonis encryption service, for the
+ * component and the property it belongs to, so it can't be read from the
+ * page source nor moved to another property.
+ */
+export class EncryptedSynth extends Synth {
+  static key = 'enc'
+
+  /**
+   * Encrypted properties are picked by name, never by value
+   */
+  static match(_target: any): boolean {
+    return false
+  }
+
+  /**
+   * Encrypt an already dehydrated value
+   */
+  async dehydrate(target: any, _dehydrateChild?: any): Promise<[string, Record<string, any>]> {
+    const encryption = await this.encryption()
+    return [encryption.encrypt(target, undefined, this.purpose()), {}]
+  }
+
+  /**
+   * Decrypt the dehydrated value, which is then hydrated by Livewire
+   */
+  async hydrate(value: string, _meta: Record<string, any>, _hydrateChild?: any) {
+    const encryption = await this.encryption()
+    const decrypted = encryption.decrypt(value, this.purpose())
+
+    if (decrypted === null) {
+      throw new Error(`Livewire could not decrypt the [${this.path}] property`)
+    }
+
+    return decrypted
+  }
+
+  protected purpose() {
+    return `livewire:${this.context.component.getName()}:${this.path}`
+  }
+
+  protected async encryption() {
+    return await this.app.container.make('encryption')
+  }
+}
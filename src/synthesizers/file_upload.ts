@@ -0,0 +1,32 @@
+import { Synth } from './synth.js'
+import { TemporaryUploadedFile } from '../features/support_file_uploads/temporary_uploaded_file.js'
+
+/**
+ * FileUploadSynth - Synthesizer for temporary uploaded files
+ * PHP parity: FileUploadSynth
+ *
+ * Serializes files as `livewire-file:<filename>` references to the
+ * temporary upload directory and restores them on the next request.
+ */
+export class FileUploadSynth extends Synth {
+  static key = 'fil'
+
+  static match(target: any): boolean {
+    return target instanceof TemporaryUploadedFile
+  }
+
+  async dehydrate(
+    target: TemporaryUploadedFile,
+    _dehydrateChild: any
+  ): Promise<[string, Record<string, any>]> {
+    return [target.serializeForLivewireResponse(), {}]
+  }
+
+  async hydrate(value: any, _meta: Record<string, any>, _hydrateChild: any) {
+    if (TemporaryUploadedFile.canUnserialize(value)) {
+      return TemporaryUploadedFile.unserializeFromLivewireRequest(value)
+    }
+
+    return value
+  }
+}
@@ -27,6 +27,32 @@ export type ComponentSnapshot = {
   checksum: string
 }
 
+/**
+ * Route a component was mounted on
+ */
+export type ComponentRoute = {
+  /**
+   * Route name
+   */
+  name?: string
+  /**
+   * Route pattern
+   */
+  pattern: string
+  /**
+   * Route domain
+   */
+  domain?: string
+  /**
+   * HTTP method the route is registered with
+   */
+  method?: string
+  /**
+   * Route params of the original request
+   */
+  params: Record<string, any>
+}
+
 /**
  * Component metadata stored in snapshot
  */
@@ -48,9 +74,17 @@ export type ComponentMemo = {
    */
   method?: string
   /**
-   * Child components
+   * Route where component was mounted, its middleware run again on updates
+   */
+  route?: ComponentRoute
+  /**
+   * Child components rendered by this component, keyed by `wire:key` as `[tag, id]`
    */
-  children?: ComponentSnapshot[]
+  children?: Record<string, [string, string]>
+  /**
+   * Islands rendered by this component, keyed by island name
+   */
+  islands?: Record<string, { token: string; loaded: boolean }>
   /**
    * Scripts to execute
    */
@@ -103,6 +137,10 @@ export type ComponentCall = {
    * Parameters to pass to method
    */
   params: any[]
+  /**
+   * Client metadata of the action (e.g. the island it targets)
+   */
+  metadata?: Record<string, any>
 }
 
 /**
@@ -129,8 +167,29 @@ export type ComponentEffects = {
    * Download file
    */
   download?: {
-    url: string
-    filename?: string
+    name: string
+    /**
+     * Base64 encoded file content
+     */
+    content: string
+    contentType: string | null
+  }
+  /**
+   * Authorization failure of an action
+   */
+  forbidden?: {
+    status: number
+    message: string
+  }
+  /**
+   * Action over its rate limit
+   */
+  throttled?: {
+    method: string
+    limit: number
+    remaining: number
+    consumed: number
+    availableIn: number
   }
   /**
    * Browser events to fire
@@ -0,0 +1,106 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+
+/**
+ * Parameter of a method decorated with `@bind`
+ */
+export type MethodBinding = {
+  name: string
+  type: any
+}
+
+const PRIMITIVE_TYPES: any[] = [String, Number, Boolean, Object, Array, Function, Promise, Date]
+
+/**
+ * Check if a type is a Lucid model (or any class resolving records by key)
+ *
+ * @example
+ * ```ts
+ * isResourceModel(Post) // true
+ * isResourceModel(String) // false
+ * ```
+ */
+export function isResourceModel(value: any): boolean {
+  if (!value) return false
+
+  return (
+    typeof value['findForRequest'] === 'function' ||
+    typeof value['findOrFail'] === 'function' ||
+    typeof value['findRelatedForRequest'] === 'function'
+  )
+}
+
+/**
+ * Resolve a value sent by the client to the type of a bound parameter
+ *
+ * - Lucid models are found by their primary key
+ * - numbers and booleans are coerced with the VineJS helpers, values that
+ *   cannot be coerced are rejected with a validation error
+ * - other classes are always resolved from the container, the client can
+ *   never provide them
+ *
+ * @example
+ * ```ts
+ * await resolveBinding(app, { name: 'post', type: Post }, '1') // Post instance
+ * await resolveBinding(app, { name: 'count', type: Number }, '42') // 42
+ * ```
+ */
+export async function resolveBinding(app: ApplicationService, binding: MethodBinding, value: any) {
+  const { name, type } = binding
+
+  if (!type) {
+    return value
+  }
+
+  if (isResourceModel(type)) {
+    if (value === null || value === undefined || value instanceof type) return value
+
+    return type.findOrFail(value)
+  }
+
+  if (type === Number || type === Boolean) {
+    if (value === null || value === undefined || value === '') return value
+
+    const { default: vine, errors } = await import('@vinejs/vine')
+    const coerced = type === Number ? vine.helpers.asNumber(value) : vine.helpers.asBoolean(value)
+
+    if (coerced === null || Number.isNaN(coerced)) {
+      const rule = type === Number ? 'number' : 'boolean'
+      throw new errors.E_VALIDATION_ERROR([
+        { field: name, message: `The ${name} field must be a ${rule}`, rule },
+      ])
+    }
+
+    return coerced
+  }
+
+  if (type === String) {
+    return value === null || value === undefined ? value : String(value)
+  }
+
+  if (typeof type === 'function' && !PRIMITIVE_TYPES.includes(type)) {
+    // Instances can only be passed by the server, e.g. mount params from templates
+    return value instanceof type ? value : app.container.make(type)
+  }
+
+  return value
+}
+
+/**
+ * Resolve the parameters of a component action bound with `@bind`. Bound
+ * services are resolved from the container, so they can be injected
+ * after the client parameters.
+ */
+export async function resolveActionParams(
+  app: ApplicationService,
+  bindings: MethodBinding[] | undefined,
+  params: any[]
+) {
+  if (!bindings) return params
+
+  const resolved = [...params]
+  for (const [index, binding] of bindings.entries()) {
+    resolved[index] = await resolveBinding(app, binding, params[index])
+  }
+
+  return resolved
+}
@@ -0,0 +1,61 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+import { type HttpContext, RequestValidator } from '@adonisjs/core/http'
+import type { I18n, I18nManager } from '@adonisjs/i18n'
+
+/**
+ * Get the request-scoped i18n instance, assigned to the HTTP context by
+ * the `detect_user_locale_middleware` of `@adonisjs/i18n`
+ */
+export function getI18n(ctx?: HttpContext): I18n | undefined {
+  return (ctx as any)?.i18n
+}
+
+/**
+ * Get the locale of the request, stored in `memo.locale`
+ *
+ * @example
+ * ```ts
+ * getLocale(ctx) // 'fr' when ctx.i18n is set for French, 'en' otherwise
+ * ```
+ */
+export function getLocale(ctx?: HttpContext): string {
+  return getI18n(ctx)?.locale ?? 'en'
+}
+
+/**
+ * Restore the locale a component was mounted with. A request-scoped i18n
+ * instance is assigned to the HTTP context, bound to the container and
+ * shared with the templates, as the `detect_user_locale_middleware` does.
+ */
+export async function restoreLocale(app: ApplicationService, ctx: HttpContext, locale?: string) {
+  if (!locale || getLocale(ctx) === locale || !app.container.hasBinding('i18n')) {
+    return
+  }
+
+  const manager = (await app.container.make('i18n' as any)) as I18nManager
+  const supportedLocale = manager.getSupportedLocaleFor(locale) ?? manager.defaultLocale
+
+  const { I18n: I18nClass } = await import('@adonisjs/i18n')
+  const i18n = manager.locale(supportedLocale)
+
+  ;(ctx as any).i18n = i18n
+  ctx.containerResolver.bindValue(I18nClass, i18n)
+
+  if ('view' in ctx) {
+    ctx.view.share({ i18n })
+  }
+}
+
+/**
+ * Messages provider for component validation, the one configured for
+ * `request.validateUsing` or the messages of the request locale
+ */
+export function validationMessagesProvider(ctx?: HttpContext) {
+  if (!ctx) return undefined
+
+  if (RequestValidator.messagesProvider) {
+    return RequestValidator.messagesProvider(ctx)
+  }
+
+  return getI18n(ctx)?.createMessagesProvider()
+}
@@ -0,0 +1,178 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from './helpers.js'
+import { Component } from '../src/component.js'
+import Livewire from '../src/livewire.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { bind } from '../src/decorators/index.js'
+import { isResourceModel, resolveBinding } from '../src/utils/bindings.js'
+
+class Post {
+  constructor(public id: number) {}
+
+  static async findOrFail(id: any) {
+    if (Number(id) > 100) throw new Error(`Post ${id} not found`)
+    return new Post(Number(id))
+  }
+}
+
+class Mailer {
+  sent: string[] = []
+}
+
+const received: any[] = []
+
+class PostList extends Component {
+  @bind()
+  delete(post: Post, mailer: Mailer) {
+    received.push(post, mailer)
+  }
+
+  @bind()
+  paginate(page: number, archived: boolean, search: string) {
+    received.push(page, archived, search)
+  }
+
+  raw(id: any) {
+    received.push(id)
+  }
+
+  async render() {
+    return Promise.resolve('<div>Posts</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Action parameter binding', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = []
+    received.length = 0
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('post-list', PostList)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'post-list'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should find models and resolve services from the container', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(ctx, snapshot, {}, [{ method: 'delete', params: ['7'] }])
+
+    assert.instanceOf(received[0], Post)
+    assert.equal(received[0].id, 7)
+    assert.instanceOf(received[1], Mailer)
+  })
+
+  test('should coerce primitives', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(ctx, snapshot, {}, [{ method: 'paginate', params: ['2', 'on', 3] }])
+
+    assert.deepEqual(received, [2, true, '3'])
+  })
+
+  test('should reject values that cannot be coerced', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'paginate', params: ['abc', 'on', 3] }]),
+      'Validation failure'
+    )
+    assert.deepEqual(received, [])
+  })
+
+  test('should ignore values sent for services', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(ctx, snapshot, {}, [
+      { method: 'delete', params: ['7', { sent: ['forged'] }] },
+    ])
+
+    assert.instanceOf(received[1], Mailer)
+    assert.deepEqual(received[1].sent, [])
+  })
+
+  test('should pass params of unbound methods as they are', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(ctx, snapshot, {}, [{ method: 'raw', params: ['7'] }])
+
+    assert.deepEqual(received, ['7'])
+  })
+
+  test('should fail when the model does not exist', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'delete', params: [101] }]),
+      'Post 101 not found'
+    )
+  })
+})
+
+test.group('resolveBinding', () => {
+  test('should detect resource models', ({ assert }) => {
+    assert.isTrue(isResourceModel(Post))
+    assert.isFalse(isResourceModel(Mailer))
+    assert.isFalse(isResourceModel(undefined))
+  })
+
+  test('should keep empty values and instances', async ({ assert, cleanup }) => {
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const post = new Post(1)
+    const mailer = new Mailer()
+
+    assert.strictEqual(await resolveBinding(app, { name: 'post', type: Post }, post), post)
+    assert.strictEqual(await resolveBinding(app, { name: 'mailer', type: Mailer }, mailer), mailer)
+    assert.isNull(await resolveBinding(app, { name: 'page', type: Number }, null))
+    assert.isUndefined(await resolveBinding(app, { name: 'post', type: Post }, undefined))
+  })
+
+  test('should reject values it cannot coerce', async ({ assert, cleanup }) => {
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    try {
+      await resolveBinding(app, { name: 'page', type: Number }, 'abc')
+      assert.fail('expected a validation error')
+    } catch (error) {
+      assert.equal(error.code, 'E_VALIDATION_ERROR')
+      assert.deepEqual(error.messages, [
+        { field: 'page', message: 'The page field must be a number', rule: 'number' },
+      ])
+    }
+
+    await assert.rejects(
+      () => resolveBinding(app, { name: 'flag', type: Boolean }, 'maybe'),
+      'Validation failure'
+    )
+  })
+})
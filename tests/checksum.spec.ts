@@ -1,5 +1,5 @@
 import { test } from '@japa/runner'
-import { Checksum } from '../src/checksum.js'
+import { Checksum, HmacSigner, type SnapshotSigner } from '../src/checksum.js'
 
 test.group('Checksum', () => {
   test('should generate checksum for snapshot', async ({ assert }) => {
@@ -56,7 +56,7 @@ test.group('Checksum', () => {
     })
   })
 
-  test('should remove checksum from snapshot before verification', async ({ assert }) => {
+  test('should not mutate the snapshot during verification', async ({ assert }) => {
     const checksum = new Checksum('secret-key')
     const snapshot = { name: 'test', id: '123', data: { count: 5 } }
     const generatedChecksum = checksum.generate(snapshot)
@@ -64,9 +64,46 @@ test.group('Checksum', () => {
     const snapshotWithChecksum = { ...snapshot, checksum: generatedChecksum }
 
     checksum.verify(snapshotWithChecksum)
+    checksum.verify(snapshotWithChecksum)
+
+    assert.equal(snapshotWithChecksum.checksum, generatedChecksum)
+  })
+
+  test('should sign with the newest key and verify against previous keys', async ({ assert }) => {
+    const previous = new Checksum('old-key')
+    const rotated = new Checksum(['new-key', 'old-key'])
+    const snapshot = { name: 'test', id: '123', data: { count: 5 } }
+
+    assert.equal(rotated.generate(snapshot), new Checksum('new-key').generate(snapshot))
+    assert.doesNotThrow(() => {
+      rotated.verify({ ...snapshot, checksum: previous.generate(snapshot) })
+    })
+    assert.throws(() => {
+      new Checksum('new-key').verify({ ...snapshot, checksum: previous.generate(snapshot) })
+    }, /corrupt data/)
+  })
+
+  test('should sign with a custom signer', async ({ assert }) => {
+    const signer: SnapshotSigner = {
+      sign: (payload, key) => `${key}:${payload.length}`,
+    }
+    const checksum = new Checksum('secret-key', signer)
+    const snapshot = { name: 'test', id: '123', data: { count: 5 } }
 
-    // Checksum should be removed from snapshot
-    assert.isUndefined(snapshotWithChecksum.checksum)
+    const generatedChecksum = checksum.generate(snapshot)
+
+    assert.equal(generatedChecksum, `secret-key:${JSON.stringify(snapshot).length}`)
+    assert.doesNotThrow(() => checksum.verify({ ...snapshot, checksum: generatedChecksum }))
+    assert.notEqual(
+      new Checksum('secret-key', new HmacSigner('sha512')).generate(snapshot),
+      generatedChecksum
+    )
+  })
+
+  test('should reject snapshots without a checksum', async ({ assert }) => {
+    const checksum = new Checksum('secret-key')
+
+    assert.throws(() => checksum.verify({ name: 'test' }), /corrupt data/)
   })
 
   test('should throw CorruptComponentPayloadException for invalid checksum', async ({ assert }) => {
@@ -143,4 +180,14 @@ test.group('Checksum', () => {
       checksum.verify(snapshotWithChecksum)
     })
   })
+
+  test('should ignore memo children when generating checksum', async ({ assert }) => {
+    const checksum = new Checksum('secret-key')
+    const snapshot = { data: {}, memo: { id: '123', children: { a: ['div', '456'] } } }
+
+    const result = checksum.generate(snapshot)
+
+    assert.equal(result, checksum.generate({ data: {}, memo: { id: '123', children: {} } }))
+    assert.deepEqual(snapshot.memo.children, { a: ['div', '456'] })
+  })
 })
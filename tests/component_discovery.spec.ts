@@ -0,0 +1,274 @@
+import edge from 'edge.js'
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from './helpers.js'
+import { ComponentDiscovery } from '../src/component_discovery.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { processLivewireComponents } from '../src/plugins/edge/processor.js'
+
+const COMPONENT = `
+import { Component } from '${new URL('../index.js', import.meta.url).href}'
+
+export default class extends Component {
+  async render() {
+    return '<div>Counter</div>'
+  }
+}
+`
+
+test.group('ComponentDiscovery', () => {
+  test('should discover class and single file components', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/livewire/counter.ts', COMPONENT)
+    await fs.create('app/livewire/todo_list/index.ts', COMPONENT)
+    await fs.create('app/livewire/admin/user_table.ts', COMPONENT)
+    await fs.create('app/livewire/types.d.ts', '')
+    await fs.create(
+      'resources/views/livewire/search.edge',
+      '<script server>export default class {}</script><div></div>'
+    )
+    await fs.create('resources/views/livewire/counter.edge', '<div>{{ count }}</div>')
+    await fs.create('resources/views/livewire/plain.edge', '<div></div>')
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    assert.deepEqual(new ComponentDiscovery(app).discover(), {
+      'admin.user-table': { type: 'class', path: 'app/livewire/admin/user_table.ts' },
+      'counter': {
+        type: 'class',
+        path: 'app/livewire/counter.ts',
+        view: 'resources/views/livewire/counter.edge',
+      },
+      'todo-list': { type: 'class', path: 'app/livewire/todo_list/index.ts' },
+      'search': {
+        type: 'view',
+        path: 'resources/views/livewire/search.edge',
+        view: 'resources/views/livewire/search.edge',
+      },
+    })
+  })
+
+  test('should resolve names regardless of their casing', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/livewire/todo_list.ts', COMPONENT)
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const discovery = new ComponentDiscovery(app)
+
+    assert.equal(discovery.find('todoList')?.path, 'app/livewire/todo_list.ts')
+    assert.equal(discovery.find('todo_list')?.path, 'app/livewire/todo_list.ts')
+    assert.isUndefined(discovery.find('missing'))
+  })
+
+  test('should write and clear the cached manifest', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/livewire/counter.ts', COMPONENT)
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const discovery = new ComponentDiscovery(app)
+    discovery.cache()
+
+    await assert.fileExists('tmp/livewire-components.json')
+    assert.isTrue(discovery.isCached())
+
+    /**
+     * Components created after caching are not picked up until the
+     * manifest is rebuilt
+     */
+    await fs.create('app/livewire/clock.ts', COMPONENT)
+    assert.isUndefined(new ComponentDiscovery(app).find('clock'))
+
+    discovery.clear()
+
+    await assert.fileNotExists('tmp/livewire-components.json')
+    assert.isDefined(new ComponentDiscovery(app).find('clock'))
+  })
+
+  test('should resolve components from the manifest', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/livewire/counter.ts', COMPONENT)
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const livewire = new LivewireFactory(app).create()
+    const component = await livewire.new(new HttpContextFactory().create(), 'counter')
+
+    assert.isTrue(livewire.exists('counter'))
+    assert.isFalse(livewire.exists('missing'))
+    assert.equal(component.getName(), 'counter')
+    await assert.rejects(
+      () => livewire.new(new HttpContextFactory().create(), 'missing'),
+      'Livewire component not found for missing'
+    )
+  })
+})
+
+test.group('ComponentDiscovery | roots', () => {
+  test('should discover components from several roots in priority order', async ({
+    assert,
+    fs,
+    cleanup,
+  }) => {
+    await fs.create('modules/billing/livewire/invoices.ts', COMPONENT)
+    await fs.create('modules/shop/livewire/cart.ts', COMPONENT)
+    await fs.create('modules/shop/livewire/invoices.ts', COMPONENT)
+    await fs.create('app/livewire/cart.ts', COMPONENT)
+    await fs.create('modules/shop/views/cart.edge', '<div>Cart</div>')
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const discovery = new ComponentDiscovery(app, {
+      classes: ['app/livewire', 'modules/*/livewire'],
+      views: ['resources/views/livewire', 'modules/*/views'],
+    })
+
+    assert.deepEqual(discovery.discover(), {
+      cart: { type: 'class', path: 'app/livewire/cart.ts', view: 'modules/shop/views/cart.edge' },
+      invoices: { type: 'class', path: 'modules/billing/livewire/invoices.ts' },
+    })
+  })
+
+  test('should resolve the template of class components', async ({ assert, fs, cleanup }) => {
+    await fs.create('modules/shop/livewire/cart.ts', COMPONENT)
+    await fs.create('modules/shop/views/cart.edge', '<div>Cart</div>')
+    await fs.create('app/livewire/counter.ts', COMPONENT)
+    await fs.create('resources/views/livewire/counter/index.edge', '<div>Counter</div>')
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const discovery = new ComponentDiscovery(app, {
+      classes: ['app/livewire', 'modules/*/livewire'],
+      views: ['resources/views/livewire', 'modules/*/views'],
+    })
+
+    assert.equal(discovery.viewPath('cart'), app.makePath('modules/shop/views/cart.edge'))
+    assert.equal(discovery.viewPath('counter'), 'livewire/counter/index')
+    assert.equal(discovery.viewPath('todoList'), 'livewire/todo-list')
+  })
+
+  test('should use the configured roots', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/components/counter.ts', COMPONENT)
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const livewire = new LivewireFactory(app)
+      .merge({ config: { class_namespace: 'app/components', view_path: 'resources/views/wire' } })
+      .create()
+
+    const component = await livewire.new(new HttpContextFactory().create(), 'counter')
+
+    assert.isTrue(livewire.exists('counter'))
+    assert.equal(component.viewPath, 'wire/counter')
+  })
+})
+
+test.group('ComponentDiscovery | namespaces', () => {
+  test('should discover namespaced components', async ({ assert, fs, cleanup }) => {
+    await fs.create('app/livewire/table.ts', COMPONENT)
+    await fs.create('modules/admin/livewire/users/table.ts', COMPONENT)
+    await fs.create(
+      'modules/admin/views/users/show.edge',
+      '<script server>export default class {}</script><div></div>'
+    )
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const discovery = new ComponentDiscovery(app)
+    discovery.addNamespace('admin', {
+      classes: 'modules/admin/livewire',
+      views: app.makePath('modules/admin/views'),
+    })
+
+    assert.deepEqual(discovery.discover(), {
+      'table': { type: 'class', path: 'app/livewire/table.ts' },
+      'admin::users.table': { type: 'class', path: 'modules/admin/livewire/users/table.ts' },
+      'admin::users.show': {
+        type: 'view',
+        path: 'modules/admin/views/users/show.edge',
+        view: 'modules/admin/views/users/show.edge',
+      },
+    })
+    assert.equal(discovery.find('admin::users.Table')?.type, 'class')
+    assert.isUndefined(discovery.find('admin::table'))
+  })
+
+  test('should resolve and render namespaced components', async ({ assert, fs, cleanup }) => {
+    await fs.create(
+      'modules/admin/livewire/users/table.ts',
+      COMPONENT.replace(/async render\(\) \{[^}]*\}/, '')
+    )
+    await fs.create('modules/admin/views/users/table.edge', '<div>Admin users</div>')
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+    cleanup(() => {
+      edge.unmount('admin')
+    })
+
+    const livewire = new LivewireFactory(app).create()
+    livewire.addNamespace('admin', {
+      classes: 'modules/admin/livewire',
+      views: 'modules/admin/views',
+    })
+
+    const ctx = new HttpContextFactory().create()
+    Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+
+    const component = await livewire.new(ctx, 'admin::users.table')
+
+    assert.isTrue(livewire.exists('admin::users.table'))
+    assert.isFalse(livewire.exists('users.table'))
+    assert.equal(component.viewPath, 'admin::users/table')
+    assert.equal(await component.render(), '<div>Admin users</div>')
+  })
+
+  test('should compile namespaced single file components apart', async ({
+    assert,
+    fs,
+    cleanup,
+  }) => {
+    const sfc = (label: string) =>
+      `<script server>
+import { Component } from '${new URL('../index.js', import.meta.url).href}'
+
+export default class extends Component {
+  label = '${label}'
+}
+</script><div>{{ label }}</div>`
+
+    await fs.create('resources/views/livewire/admin/users/table.edge', sfc('plain'))
+    await fs.create('modules/admin/views/users/table.edge', sfc('namespaced'))
+
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+    cleanup(() => {
+      edge.unmount('admin')
+    })
+
+    const livewire = new LivewireFactory(app).create()
+    livewire.addNamespace('admin', { views: 'modules/admin/views' })
+
+    const ctx = new HttpContextFactory().create()
+    Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+
+    const plain = await livewire.new(ctx, 'admin.users.table')
+    const namespaced = await livewire.new(ctx, 'admin::users.table')
+
+    assert.equal((plain as any).label, 'plain')
+    assert.equal((namespaced as any).label, 'namespaced')
+    assert.notStrictEqual(plain.constructor, namespaced.constructor)
+  })
+
+  test('should process namespaced component tags', ({ assert }) => {
+    assert.equal(
+      processLivewireComponents('<livewire:admin::users.table title="Users" />'),
+      `@livewire('admin::users.table', {"title":"Users"}, {})`
+    )
+  })
+})
@@ -7,6 +7,7 @@ test.group('defineConfig', () => {
 
     assert.deepEqual(config, defaultConfig)
     assert.equal(config.class_namespace, 'app/livewire')
+    assert.equal(config.view_path, 'resources/views/livewire')
     assert.equal(config.layout, 'components.layouts.main')
     assert.isTrue(config.injectAssets)
     assert.isFalse(config.renderOnRedirect)
@@ -164,4 +165,14 @@ test.group('defineConfig', () => {
     assert.equal(config.limits.maxSize, 2048)
     assert.equal(config.limits.maxComponents, 5)
   })
+  test('should merge partial checksum config', async ({ assert }) => {
+    const config = defineConfig({
+      checksum: {
+        previousKeys: ['old-key'],
+      },
+    })
+
+    assert.deepEqual(config.checksum.previousKeys, ['old-key'])
+    assert.isNull(config.checksum.signer) // Default preserved
+  })
 })
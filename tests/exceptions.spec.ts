@@ -0,0 +1,153 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import vine from '@vinejs/vine'
+import { setupApp } from './helpers.js'
+import { Component } from '../src/component.js'
+import Livewire from '../src/livewire.js'
+import ComponentHook from '../src/component_hook.js'
+import ComponentContext from '../src/component_context.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { SupportValidation } from '../src/features/support_validation/support_validation.js'
+
+class PaymentFailed extends Error {}
+
+class CheckoutComponent extends Component {
+  email = ''
+
+  pay() {
+    throw new PaymentFailed('Card declined')
+  }
+
+  crash() {
+    throw new Error('Unexpected')
+  }
+
+  async subscribe() {
+    await vine.validate({ schema: vine.object({ email: vine.string().email() }), data: this })
+  }
+
+  exception(error: unknown, stopPropagation: () => void) {
+    if (error instanceof PaymentFailed) {
+      this.addError('email', error.message)
+      stopPropagation()
+    }
+  }
+
+  async render() {
+    return Promise.resolve('<div>{{ email }}</div>')
+  }
+}
+
+class BrokenTemplateComponent extends Component {
+  async render() {
+    return Promise.resolve('<div>{{ missing.value }}</div>')
+  }
+}
+
+class FallbackTemplateComponent extends BrokenTemplateComponent {
+  exception(_error: unknown, stopPropagation: () => void) {
+    stopPropagation()
+  }
+}
+
+class SupportErrorEffects extends ComponentHook {
+  #context?: ComponentContext
+
+  async hydrate(_memo: any, context: ComponentContext) {
+    this.#context = context
+  }
+
+  async exception(error: Error, stopPropagation: () => void) {
+    if (error.message === 'Unexpected') {
+      this.#context?.addEffect('error', error.message)
+      stopPropagation()
+    }
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Exception pipeline', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportValidation]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('checkout', CheckoutComponent)
+    livewire.component('broken', BrokenTemplateComponent)
+    livewire.component('fallback', FallbackTemplateComponent)
+
+    const html = await livewire.mount(ctx, 'checkout')
+    return { app, ctx, livewire, snapshot: extractSnapshot(html) }
+  }
+
+  test('should let the component handle its errors', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'pay', params: [] },
+    ])
+
+    assert.deepEqual(newSnapshot.memo.errors, { email: ['Card declined'] })
+    assert.deepEqual(effects.returns, [])
+    assert.include(effects.html, 'wire:id')
+  })
+
+  test('should rethrow errors nobody handles', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'crash', params: [] }]),
+      'Unexpected'
+    )
+  })
+
+  test('should let features turn errors into effects', async ({ assert, cleanup }) => {
+    Livewire.FEATURES = [SupportValidation, SupportErrorEffects]
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [, effects] = await livewire.update(ctx, snapshot, {}, [{ method: 'crash', params: [] }])
+
+    assert.equal(effects.error, 'Unexpected')
+    assert.deepEqual(effects.returns, [])
+  })
+
+  test('should turn validation errors into error bag entries', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, { email: 'virk' }, [
+      { method: 'subscribe', params: [] },
+    ])
+
+    assert.deepEqual(newSnapshot.memo.errors, {
+      email: ['The email field must be a valid email address'],
+    })
+  })
+
+  test('should send render errors through the pipeline', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(() => livewire.mount(ctx, 'broken'), /Cannot read properties of undefined/)
+
+    const html = await livewire.mount(ctx, 'fallback')
+    assert.match(html, /^<div [^>]*wire:id="[^"]+"[^>]*><\/div>$/)
+  })
+})
@@ -0,0 +1,232 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { AuthorizationResponse, BasePolicy, Bouncer } from '@adonisjs/bouncer'
+import { setupApp, setupFakeAdonisProject } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import ComponentHook from '../../src/component_hook.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { Testable } from '../../src/features/support_testing/testable.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { SupportAuthorization } from '../../src/features/support_authorization/support_authorization.js'
+import { arg, authorize, on } from '../../src/decorators/index.js'
+
+type User = { id: number }
+type Post = { authorId: number }
+
+const editPost = Bouncer.ability((user: User, post: Post) => user.id === post.authorId)
+const publishPost = Bouncer.ability(() =>
+  AuthorizationResponse.deny('Only editors can publish posts', 403)
+)
+
+class Comment {}
+
+const createComment = Bouncer.ability((_user: User, model: typeof Comment) => model === Comment)
+
+class PostPolicy extends BasePolicy {
+  delete(user: User, post: Post) {
+    return user.id === post.authorId
+  }
+}
+
+const hookCalls: string[] = []
+
+class RecordCalls extends ComponentHook {
+  async call(method: string) {
+    hookCalls.push(method)
+  }
+}
+
+class EditPost extends Component {
+  post: Post = { authorId: 1 }
+  saved = false
+  deleted = false
+  archived = false
+  commented = false
+
+  @authorize(editPost, arg((component: EditPost) => component.post))
+  save() {
+    this.saved = true
+  }
+
+  @authorize([PostPolicy, 'delete'], arg((component: EditPost) => component.post))
+  delete() {
+    this.deleted = true
+  }
+
+  @on('post-archived')
+  @authorize(editPost, arg((component: EditPost) => component.post))
+  archive() {
+    this.archived = true
+  }
+
+  @authorize(createComment, Comment)
+  comment() {
+    this.commented = true
+  }
+
+  async publish() {
+    await this.authorize(publishPost)
+  }
+
+  async render() {
+    return Promise.resolve('<div>Post</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Support Authorization', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators, SupportAuthorization, RecordCalls]
+    hookCalls.length = 0
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup(user: User | null) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    ;(ctx as any).bouncer = new Bouncer(user)
+
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('edit-post', EditPost)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'edit-post'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should run actions allowed by the ability', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 1 })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'save', params: [] },
+    ])
+
+    assert.isTrue(newSnapshot.data.saved)
+    assert.isUndefined(effects.forbidden)
+  })
+
+  test('should deny actions before the call hooks', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 2 })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'save', params: [] },
+    ])
+
+    assert.isFalse(newSnapshot.data.saved)
+    assert.deepEqual(effects.forbidden, { status: 403, message: 'Access denied' })
+    assert.deepEqual(hookCalls, [])
+    assert.include(effects.html, 'Post')
+  })
+
+  test('should authorize listeners of dispatched events', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 2 })
+    cleanup(() => app.terminate())
+
+    const dispatch = { method: '__dispatch', params: ['post-archived', {}] }
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [dispatch])
+
+    assert.isFalse(newSnapshot.data.archived)
+    assert.deepEqual(effects.forbidden, { status: 403, message: 'Access denied' })
+    assert.deepEqual(hookCalls, ['__dispatch'])
+
+    const allowed = await setup({ id: 1 })
+    cleanup(() => allowed.app.terminate())
+    hookCalls.length = 0
+    const [archived] = await allowed.livewire.update(allowed.ctx, allowed.snapshot, {}, [dispatch])
+
+    assert.isTrue(archived.data.archived)
+    assert.deepEqual(hookCalls, ['__dispatch', 'archive'])
+  })
+
+  test('should authorize policy actions', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 2 })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'delete', params: [] },
+    ])
+
+    assert.isFalse(newSnapshot.data.deleted)
+    assert.equal(effects.forbidden?.status, 403)
+  })
+
+  test('should pass classes as they are to the ability', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 2 })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'comment', params: [] },
+    ])
+
+    assert.isTrue(newSnapshot.data.commented)
+    assert.isUndefined(effects.forbidden)
+  })
+
+  test('should handle denials from this.authorize()', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup({ id: 1 })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'publish', params: [] },
+      { method: 'save', params: [] },
+    ])
+
+    assert.deepEqual(effects.forbidden, {
+      status: 403,
+      message: 'Only editors can publish posts',
+    })
+    assert.isTrue(newSnapshot.data.saved)
+    assert.deepEqual(hookCalls, ['publish', 'save'])
+  })
+
+  test('should require a bouncer instance', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup(null)
+    cleanup(() => app.terminate())
+    delete (ctx as any).bouncer
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'save', params: [] }]),
+      /initialize_bouncer_middleware/
+    )
+  })
+})
+
+test.group('TestsAuthorization', () => {
+  test('should assert forbidden actions', async ({ assert, cleanup }) => {
+    await setupFakeAdonisProject()
+
+    const { app, router } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    ;(ctx as any).bouncer = new Bouncer({ id: 2 })
+
+    const testable = new Testable(EditPost, app, router, ctx)
+
+    await testable.mount()
+    testable.assertNotForbidden()
+
+    await testable.call('save')
+    testable.assertForbidden().assertForbidden('Access denied').assertSet('saved', false)
+
+    assert.throws(() => testable.assertForbidden('Nope'), /forbidden message/)
+    assert.throws(() => testable.assertNotForbidden(), /not forbidden/)
+  })
+})
@@ -411,3 +411,135 @@ test.group('Computed Decorator - Use @computed', () => {
     assert.includeMembers(names, ['fullName', 'itemCount'])
   })
 })
+
+test.group('Computed Decorator - persist and cache', () => {
+  let queries = 0
+
+  class Dashboard extends Component {
+    @computed({ persist: 60 })
+    async visits() {
+      return ++queries
+    }
+
+    @computed({ cache: '1 hour', tags: ['orders'] })
+    async revenue() {
+      return ++queries
+    }
+
+    @computed({ cache: true, key: 'dashboard:signups' })
+    async signups() {
+      return ++queries
+    }
+
+    async render() {
+      return Promise.resolve('<div>Dashboard</div>')
+    }
+  }
+
+  /**
+   * Read a computed value the way a new request would
+   */
+  async function read(component: Dashboard, name: string) {
+    const decorator = component.getDecorators().find((d) => (d as Computed).name === name)
+    const computedDecorator = decorator as Computed
+
+    computedDecorator.__boot(component)
+    await computedDecorator.boot()
+
+    return computedDecorator.getValue()
+  }
+
+  async function setup(id: string) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+
+    return { app, component: new Dashboard({ ctx, app, router, id, name: 'dashboard' }) }
+  }
+
+  test('should persist values across the requests of a component', async ({ assert, cleanup }) => {
+    const { app, component } = await setup('persist-1')
+    cleanup(() => app.terminate())
+
+    queries = 0
+    assert.equal(await read(component, 'visits'), 1)
+    assert.equal(await read(component, 'visits'), 1)
+
+    const { component: other } = await setup('persist-2')
+    assert.equal(await read(other, 'visits'), 2)
+
+    await component.unset('visits')
+    assert.equal(await read(component, 'visits'), 3)
+    assert.equal(await read(other, 'visits'), 2)
+  })
+
+  test('should cache values across the instances of a component', async ({ assert, cleanup }) => {
+    const { app, component } = await setup('cache-1')
+    cleanup(() => app.terminate())
+
+    queries = 0
+    const { component: other } = await setup('cache-2')
+
+    assert.equal(await read(component, 'signups'), 1)
+    assert.equal(await read(other, 'signups'), 1)
+
+    const decorator = other.getDecorators().find((d) => (d as Computed).name === 'signups')
+    assert.equal((decorator as Computed).cacheKey(), 'dashboard:signups')
+
+    await other.unset('signups')
+    assert.equal(await read(component, 'signups'), 2)
+  })
+
+  test('should not mix up the components sharing a decorator', async ({ assert, cleanup }) => {
+    class Profile extends Component {
+      userId = 0
+
+      @computed({ persist: 60 })
+      async user() {
+        return `user-${this.userId}`
+      }
+
+      async render() {
+        return Promise.resolve('<div>Profile</div>')
+      }
+    }
+
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const first = new Profile({ ctx, app, router, id: 'profile-1', name: 'profile' })
+    const second = new Profile({ ctx, app, router, id: 'profile-2', name: 'profile' })
+    first.userId = 1
+    second.userId = 2
+
+    const decorator = first.getDecorators()[0] as Computed
+    decorator.__boot(first)
+    const pending = decorator.getValue()
+
+    decorator.__boot(second)
+    assert.equal(await decorator.getValue(), 'user-2')
+    assert.equal(await pending, 'user-1')
+
+    decorator.__boot(first)
+    assert.equal(await decorator.getValue(), 'user-1')
+  })
+
+  test('should use the cache of the application', async ({ assert, cleanup }) => {
+    const { app, component } = await setup('cache-3')
+    cleanup(() => app.terminate())
+
+    const { BentoCache, store, drivers } = await import('@adonisjs/cache')
+    const cache = new BentoCache({
+      default: 'memory',
+      stores: { memory: await store().useL1Layer(drivers.memory({})).entry().resolver(app) },
+    })
+    app.container.singleton('cache.manager' as any, () => cache)
+
+    queries = 0
+    assert.equal(await read(component, 'revenue'), 1)
+    assert.equal(await cache.get({ key: 'livewire:computed:dashboard:revenue' }), 1)
+
+    await cache.deleteByTag({ tags: ['orders'] })
+    assert.equal(await read(component, 'revenue'), 2)
+  })
+})
@@ -0,0 +1,126 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { defineConfig } from '../../src/define_config.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { DateSynth } from '../../src/synthesizers/date.js'
+import { EncryptedSynth } from '../../src/synthesizers/encrypted.js'
+import { encrypted } from '../../src/decorators/index.js'
+
+class Invoice extends Component {
+  title = 'Invoice'
+
+  @encrypted()
+  customerId = 42
+
+  @encrypted()
+  issuedAt = new Date('2024-01-01T00:00:00.000Z')
+
+  checks: any[] = []
+
+  check() {
+    this.checks = [this.customerId, this.issuedAt instanceof Date, this.issuedAt.toISOString()]
+  }
+
+  async render() {
+    return Promise.resolve('<div>Invoice</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Support Encrypted Properties', (group) => {
+  let features: typeof Livewire.FEATURES
+  let synthesizers: typeof Livewire.PROPERTY_SYNTHESIZERS
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    synthesizers = Livewire.PROPERTY_SYNTHESIZERS
+    Livewire.FEATURES = [SupportDecorators]
+    Livewire.PROPERTY_SYNTHESIZERS = [DateSynth, EncryptedSynth]
+
+    return () => {
+      Livewire.FEATURES = features
+      Livewire.PROPERTY_SYNTHESIZERS = synthesizers
+    }
+  })
+
+  async function setup(config = defineConfig({})) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app, config).merge({ ctx, router }).create()
+    livewire.component('invoice', Invoice)
+
+    const html = await livewire.mount(ctx, 'invoice')
+    return { app, ctx, livewire, html, snapshot: extractSnapshot(html) }
+  }
+
+  test('should encrypt decorated properties in the snapshot', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, html, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    assert.equal(snapshot.data.title, 'Invoice')
+    assert.deepEqual(snapshot.data.customerId[1], { s: 'enc' })
+    assert.deepEqual(snapshot.data.issuedAt[1], { s: 'enc' })
+    assert.notInclude(html, '2024-01-01')
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'check', params: [] },
+    ])
+
+    assert.deepEqual(newSnapshot.data.checks, [42, true, '2024-01-01T00:00:00.000Z'])
+    assert.deepEqual(newSnapshot.data.customerId[1], { s: 'enc' })
+  })
+
+  test('should reject updates of encrypted properties', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, { customerId: 7 }, []),
+      'Cannot update locked property: [customerId]'
+    )
+  })
+
+  test('should not decrypt values moved to another property', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const { checksum, ...tampered } = snapshot
+    tampered.data.customerId = snapshot.data.issuedAt
+
+    await assert.rejects(
+      () =>
+        livewire.update(
+          ctx,
+          { ...tampered, checksum: livewire.checksum.generate(tampered) },
+          {},
+          []
+        ),
+      'Livewire could not decrypt the [customerId] property'
+    )
+  })
+
+  test('should encrypt every property with encryptData', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup(defineConfig({ encryptData: true }))
+    cleanup(() => app.terminate())
+
+    assert.deepEqual(Object.keys(snapshot.data), ['title', 'customerId', 'issuedAt', 'checks'])
+    for (const value of Object.values<any>(snapshot.data)) {
+      assert.deepEqual(value[1], { s: 'enc' })
+    }
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, { title: 'Receipt' }, [
+      { method: 'check', params: [] },
+    ])
+
+    assert.deepEqual(newSnapshot.data.title[1], { s: 'enc' })
+    assert.notInclude(JSON.stringify(newSnapshot.data), 'Receipt')
+  })
+})
@@ -0,0 +1,171 @@
+import { join } from 'node:path'
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp, setupFakeAdonisProject } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import { Testable } from '../../src/features/support_testing/testable.js'
+import { livewireContext, DataStore, store } from '../../src/store.js'
+import ComponentContext from '../../src/component_context.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { SupportFileDownloads } from '../../src/features/support_file_downloads/support_file_downloads.js'
+
+class ExportComponent extends Component {
+  async exportCsv() {
+    await this.streamDownload(
+      async (write) => {
+        write('id,name\n')
+        write(Buffer.from('1,Virk\n'))
+      },
+      'users.csv',
+      { 'content-type': 'text/csv' }
+    )
+  }
+
+  async render() {
+    return Promise.resolve('<div>Export</div>')
+  }
+}
+
+test.group('HandlesFileDownloads', () => {
+  async function run(callback: (component: ExportComponent, context: ComponentContext) => any) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const component = new ExportComponent({ ctx, app, router, id: 'test-id', name: 'test' })
+    const componentContext = new ComponentContext(component, false)
+
+    try {
+      await livewireContext.run(
+        { dataStore: new DataStore('test-store'), context: componentContext, features: [], ctx },
+        () => callback(component, componentContext)
+      )
+    } finally {
+      await app.terminate()
+    }
+  }
+
+  test('should encode a file from disk', async ({ assert, fs }) => {
+    await fs.create('report.txt', 'Hello World')
+
+    await run(async (component) => {
+      await component.download(join(fs.basePath, 'report.txt'))
+
+      assert.deepEqual(store(component).get('download'), {
+        name: 'report.txt',
+        content: Buffer.from('Hello World').toString('base64'),
+        contentType: null,
+      })
+    })
+  })
+
+  test('should encode a buffer with filename and content type', async ({ assert }) => {
+    await run(async (component) => {
+      await component.download(Buffer.from('%PDF'), 'invoice.pdf', {
+        'Content-Type': 'application/pdf',
+      })
+
+      assert.deepEqual(store(component).get('download'), {
+        name: 'invoice.pdf',
+        content: Buffer.from('%PDF').toString('base64'),
+        contentType: 'application/pdf',
+      })
+    })
+  })
+
+  test('should require a filename for buffers', async ({ assert }) => {
+    await run(async (component) => {
+      await assert.rejects(() => component.download(Buffer.from('x')), /filename is required/)
+    })
+  })
+
+  test('should collect streamed chunks into a single download', async ({ assert }) => {
+    await run(async (component) => {
+      await component.exportCsv()
+
+      assert.deepEqual(store(component).get('download'), {
+        name: 'users.csv',
+        content: Buffer.from('id,name\n1,Virk\n').toString('base64'),
+        contentType: 'text/csv',
+      })
+    })
+  })
+
+  test('should add the download effect on dehydrate', async ({ assert }) => {
+    await run(async (component, context) => {
+      const feature = new SupportFileDownloads()
+      feature.setComponent(component)
+
+      await feature.dehydrate(context)
+      assert.isUndefined(context.effects.download)
+
+      await component.download(Buffer.from('x'), 'x.txt')
+      await feature.dehydrate(context)
+      assert.equal(context.effects.download.name, 'x.txt')
+    })
+  })
+})
+
+test.group('TestsFileDownloads', () => {
+  test('should assert downloaded files', async ({ assert, cleanup }) => {
+    await setupFakeAdonisProject()
+
+    const { app, router } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+    cleanup(() => app.terminate())
+
+    const testable = new Testable(ExportComponent, app, router, new HttpContextFactory().create())
+
+    await testable.mount()
+    testable.assertNoFileDownloaded()
+
+    await testable.call('exportCsv')
+    testable
+      .assertFileDownloaded()
+      .assertFileDownloaded('users.csv', 'id,name\n1,Virk\n', 'text/csv')
+
+    assert.throws(() => testable.assertFileDownloaded('report.pdf'), /file name/)
+    assert.throws(() => testable.assertFileDownloaded('users.csv', 'id'), /content matches/)
+    assert.throws(() => testable.assertNoFileDownloaded(), /no file was downloaded/)
+  })
+})
+
+test.group('File downloads - callable methods', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportFileDownloads]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  test('should not let the browser call the methods of the mixins', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('export', ExportComponent)
+
+    const html = await livewire.mount(ctx, 'export')
+    const snapshot = JSON.parse(html.match(/wire:snapshot="([^"]*)"/)![1].replaceAll('&quot;', '"'))
+
+    for (const method of ['download', 'streamDownload', 'stream', 'authorize', 'renderIsland']) {
+      await assert.rejects(
+        () => livewire.update(ctx, snapshot, {}, [{ method, params: ['/app/.env'] }]),
+        `Method \`${method}\` does not exist or is not callable on component export`
+      )
+    }
+
+    const [, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'exportCsv', params: [] },
+    ])
+    assert.equal(effects.download?.name, 'users.csv')
+  })
+})
@@ -0,0 +1,378 @@
+import { test } from '@japa/runner'
+import { join } from 'node:path'
+import { utimes } from 'node:fs/promises'
+import vine from '@vinejs/vine'
+import { MultipartFile } from '@adonisjs/core/bodyparser'
+import { VineMultipartFile } from '@adonisjs/core/vine'
+import { HttpContextFactory, RequestFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import { DataStore, livewireContext, store } from '../../src/store.js'
+import ComponentContext from '../../src/component_context.js'
+import { defaultConfig } from '../../src/define_config.js'
+import { FileUploadSynth } from '../../src/synthesizers/file_upload.js'
+import { TemporaryUploadedFile } from '../../src/features/support_file_uploads/temporary_uploaded_file.js'
+import { LocalUploadDisk } from '../../src/features/support_file_uploads/local_upload_disk.js'
+import { FileUploadConfiguration } from '../../src/features/support_file_uploads/file_upload_configuration.js'
+import { FileUploadController } from '../../src/features/support_file_uploads/file_upload_controller.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { locked } from '../../src/decorators/index.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+
+class UploadComponent extends Component {
+  photo: TemporaryUploadedFile | null = null
+  photos: TemporaryUploadedFile[] = []
+  @locked() avatar: TemporaryUploadedFile | null = null
+  updatedPhotos: string[] = []
+
+  updatedPhoto(value: TemporaryUploadedFile | null) {
+    this.updatedPhotos.push(value?.filename ?? 'removed')
+  }
+
+  async render() {
+    return Promise.resolve('<div>Upload</div>')
+  }
+}
+
+function makeMultipartFile(tmpPath: string, clientName: string, size: number) {
+  const file = new MultipartFile({ fieldName: 'files', clientName, headers: {} }, {})
+  file.tmpPath = tmpPath
+  file.size = size
+  file.extname = clientName.split('.').pop()
+  file.state = 'consumed'
+  return file
+}
+
+test.group('File Uploads - TemporaryUploadedFile', (group) => {
+  let disk: LocalUploadDisk
+
+  group.each.setup(({ context }) => {
+    const previous = FileUploadConfiguration.disk
+    disk = new LocalUploadDisk(join(context.fs.basePath, 'livewire-tmp'))
+    FileUploadConfiguration.disk = disk
+
+    return () => {
+      FileUploadConfiguration.disk = previous
+    }
+  })
+
+  test('should embed and recover the client name', async ({ assert }) => {
+    const file = makeMultipartFile('', 'my/avatar.png', 10)
+    const filename = TemporaryUploadedFile.generateHashNameWithOriginalNameEmbedded(file)
+
+    assert.match(filename, /-meta.+-\.png$/)
+    assert.equal(TemporaryUploadedFile.extractOriginalNameFromFilePath(filename), 'my/avatar.png')
+  })
+
+  test('should read metadata from the temporary directory', async ({ assert, fs }) => {
+    await fs.create('livewire-tmp/abc-metaYXZhdGFyLnBuZw==-.png', 'image')
+
+    const file = TemporaryUploadedFile.createFromLivewire('abc-metaYXZhdGFyLnBuZw==-.png')
+
+    assert.equal(file.clientName, 'avatar.png')
+    assert.equal(file.extname, 'png')
+    assert.equal(file.size, 5)
+    assert.isTrue(file.exists())
+    assert.equal(file.serializeForLivewireResponse(), 'livewire-file:abc-metaYXZhdGFyLnBuZw==-.png')
+  })
+
+  test('should only use the basename of client provided paths', async ({ assert }) => {
+    const file = TemporaryUploadedFile.createFromLivewire('../../etc/passwd')
+
+    assert.equal(file.filename, 'passwd')
+    assert.equal(file.tmpPath, disk.path('passwd'))
+  })
+
+  test('should validate with vine file rules', async ({ assert, fs }) => {
+    await fs.create('livewire-tmp/abc-metaYS50eHQ=-.txt', 'text')
+    const file = TemporaryUploadedFile.createFromLivewire('abc-metaYS50eHQ=-.txt')
+
+    const schema = vine.object({ photo: new VineMultipartFile({ extnames: ['png'] }) })
+
+    await assert.rejects(() => vine.validate({ schema, data: { photo: file } }))
+  })
+
+  test('should move the file like a multipart file', async ({ assert, fs }) => {
+    await fs.create('livewire-tmp/abc-metaYS5wbmc=-.png', 'image')
+    const file = TemporaryUploadedFile.createFromLivewire('abc-metaYS5wbmc=-.png')
+
+    await file.move(join(fs.basePath, 'uploads'), { name: 'a.png' })
+
+    assert.isFalse(file.exists())
+    await assert.fileExists('uploads/a.png')
+  })
+})
+
+test.group('File Uploads - LocalUploadDisk', () => {
+  test('should move uploaded files into the directory', async ({ assert, fs }) => {
+    await fs.create('incoming/upload', 'content')
+    const disk = new LocalUploadDisk(join(fs.basePath, 'livewire-tmp'))
+
+    await disk.put(
+      'stored.txt',
+      makeMultipartFile(join(fs.basePath, 'incoming/upload'), 'a.txt', 7)
+    )
+
+    assert.isTrue(disk.exists('stored.txt'))
+    assert.equal(disk.size('stored.txt'), 7)
+    await assert.fileNotExists('incoming/upload')
+  })
+
+  test('should cleanup stale files only', async ({ assert, fs }) => {
+    await fs.create('livewire-tmp/old.txt', 'old')
+    await fs.create('livewire-tmp/new.txt', 'new')
+    const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000)
+    await utimes(join(fs.basePath, 'livewire-tmp/old.txt'), dayAgo, dayAgo)
+
+    const disk = new LocalUploadDisk(join(fs.basePath, 'livewire-tmp'))
+    const removed = await disk.cleanup()
+
+    assert.deepEqual(removed, ['old.txt'])
+    assert.isTrue(disk.exists('new.txt'))
+  })
+})
+
+test.group('File Uploads - FileUploadSynth', () => {
+  test('should dehydrate and hydrate temporary files', async ({ assert }) => {
+    const synth = new FileUploadSynth(null as any, 'photo', null as any)
+    const file = TemporaryUploadedFile.createFromLivewire('abc-metaYS5wbmc=-.png')
+
+    assert.isTrue(FileUploadSynth.match(file))
+    assert.deepEqual(await synth.dehydrate(file, null), ['livewire-file:abc-metaYS5wbmc=-.png', {}])
+
+    const hydrated = await synth.hydrate('livewire-file:abc-metaYS5wbmc=-.png', {}, null)
+    assert.instanceOf(hydrated, TemporaryUploadedFile)
+    assert.equal(hydrated.filename, 'abc-metaYS5wbmc=-.png')
+  })
+})
+
+test.group('File Uploads - HandlesFileUploads', (group) => {
+  group.each.setup(({ context }) => {
+    const previous = FileUploadConfiguration.disk
+    FileUploadConfiguration.disk = new LocalUploadDisk(join(context.fs.basePath, 'livewire-tmp'))
+
+    return () => {
+      FileUploadConfiguration.disk = previous
+    }
+  })
+
+  async function run(callback: (component: UploadComponent) => Promise<void>) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const component = new UploadComponent({ ctx, app, router, id: 'upload-id', name: 'upload' })
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    app.container.bind('livewire', () => livewire)
+
+    await livewireContext.run(
+      {
+        dataStore: new DataStore('test-store'),
+        context: new ComponentContext(component),
+        features: [new SupportDecorators()],
+        ctx,
+      },
+      () => callback(component)
+    )
+
+    await app.terminate()
+  }
+
+  test('should dispatch a signed upload url', async ({ assert }) => {
+    const { app, router } = await setupApp()
+    router.post('/livewire/upload-file', () => {}).as(FileUploadConfiguration.routeName)
+    const ctx = new HttpContextFactory().create()
+    const component = new UploadComponent({ ctx, app, router, id: 'upload-id', name: 'upload' })
+
+    await livewireContext.run(
+      {
+        dataStore: new DataStore('test-store'),
+        context: new ComponentContext(component),
+        features: [],
+        ctx,
+      },
+      async () => {
+        await component._startUpload(
+          'photo',
+          [{ name: 'a.png', size: 1, type: 'image/png' }],
+          false
+        )
+
+        const [dispatched] = store(component).get('dispatched')
+        assert.equal(dispatched.name, 'upload:generatedSignedUrl')
+        assert.isTrue(dispatched.self)
+        assert.equal(dispatched.params.name, 'photo')
+        assert.match(dispatched.params.url, /^\/livewire\/upload-file\?signature=/)
+      }
+    )
+
+    await app.terminate()
+  })
+
+  test('should set a single file on finish', async ({ assert }) => {
+    await run(async (component) => {
+      await component._finishUpload('photo', ['livewire-tmp/a-metaYS5wbmc=-.png'], false)
+
+      assert.instanceOf(component.photo, TemporaryUploadedFile)
+      assert.equal(component.photo!.filename, 'a-metaYS5wbmc=-.png')
+
+      const [dispatched] = store(component).get('dispatched')
+      assert.deepEqual(dispatched.params, { name: 'photo', tmpFilenames: ['a-metaYS5wbmc=-.png'] })
+    })
+  })
+
+  test('should run the updated hooks of the property', async ({ assert }) => {
+    await run(async (component) => {
+      await component._finishUpload('photo', ['a-metaYS5wbmc=-.png'], false)
+
+      assert.deepEqual(component.updatedPhotos, ['a-metaYS5wbmc=-.png'])
+    })
+  })
+
+  test('should not finish uploads on locked properties', async ({ assert }) => {
+    await run(async (component) => {
+      await assert.rejects(
+        () => component._finishUpload('avatar', ['a-metaYS5wbmc=-.png'], false),
+        'Cannot update locked property: [avatar]'
+      )
+
+      assert.isNull(component.avatar)
+    })
+  })
+
+  test('should not finish uploads on properties that are not public', async ({ assert }) => {
+    await run(async (component) => {
+      await assert.rejects(
+        () => component._finishUpload('__proto__', ['a-metaYS5wbmc=-.png'], false),
+        'Property [__proto__] does not exist or is not public on component upload'
+      )
+
+      assert.instanceOf(component, UploadComponent)
+    })
+  })
+
+  test('should append multiple files on finish', async ({ assert }) => {
+    await run(async (component) => {
+      await component._finishUpload('photos', ['a-metaYS5wbmc=-.png'], true)
+      await component._finishUpload('photos', ['b-metaYi5wbmc=-.png'], true)
+
+      assert.deepEqual(
+        component.photos.map((file) => file.filename),
+        ['a-metaYS5wbmc=-.png', 'b-metaYi5wbmc=-.png']
+      )
+    })
+  })
+
+  test('should remove an upload', async ({ assert, fs }) => {
+    await fs.create('livewire-tmp/a-metaYS5wbmc=-.png', 'image')
+
+    await run(async (component) => {
+      await component._finishUpload('photo', ['a-metaYS5wbmc=-.png'], false)
+      await component._removeUpload('photo', 'a-metaYS5wbmc=-.png')
+
+      assert.isNull(component.photo)
+      await assert.fileNotExists('livewire-tmp/a-metaYS5wbmc=-.png')
+
+      const dispatched = store(component).get('dispatched')
+      assert.equal(dispatched[1].name, 'upload:removed')
+    })
+  })
+
+  test('should map upload errors to the property', async ({ assert }) => {
+    await run(async (component) => {
+      await component._uploadErrored(
+        'photo',
+        JSON.stringify({ errors: { 'files.0': ['The files.0 must be a png'] } }),
+        false
+      )
+
+      assert.deepEqual(component.getErrorBag(), { photo: ['The files.0 must be a png'] })
+      assert.equal(store(component).get('dispatched')[0].name, 'upload:errored')
+    })
+  })
+
+  test('should report a generic error when the upload failed', async ({ assert }) => {
+    await run(async (component) => {
+      await component._uploadErrored('photo', null, false)
+
+      assert.deepEqual(component.getErrorBag(), { photo: ['The photo failed to upload.'] })
+    })
+  })
+})
+
+test.group('File Uploads - FileUploadController', (group) => {
+  group.each.setup(({ context }) => {
+    const previous = FileUploadConfiguration.disk
+    const previousConfig = FileUploadConfiguration.config
+    FileUploadConfiguration.configure(
+      { ...defaultConfig.temporaryFileUpload, rules: { size: '1mb', extnames: ['png'] } },
+      join(context.fs.basePath, 'livewire-tmp')
+    )
+
+    return () => {
+      FileUploadConfiguration.disk = previous
+      FileUploadConfiguration.config = previousConfig
+    }
+  })
+
+  async function createContext(signed: boolean) {
+    const { app, router } = await setupApp()
+    router.post('/livewire/upload-file', () => {}).as(FileUploadConfiguration.routeName)
+    router.commit()
+
+    const url = signed
+      ? router.makeSignedUrl(
+          FileUploadConfiguration.routeName,
+          {},
+          { purpose: FileUploadConfiguration.signaturePurpose }
+        )
+      : '/livewire/upload-file'
+
+    const encryption = await app.container.make('encryption')
+    const request = new RequestFactory()
+      .merge({ url, method: 'POST', encryption: encryption as any })
+      .create()
+    const ctx = new HttpContextFactory().merge({ request }).create()
+
+    return { app, ctx }
+  }
+
+  test('should reject requests without a valid signature', async ({ assert, cleanup }) => {
+    const { app, ctx } = await createContext(false)
+    cleanup(() => app.terminate())
+
+    await new FileUploadController().handle(ctx)
+
+    assert.equal(ctx.response.getStatus(), 401)
+  })
+
+  test('should store valid files and return their names', async ({ assert, cleanup, fs }) => {
+    const { app, ctx } = await createContext(true)
+    cleanup(() => app.terminate())
+
+    await fs.create('incoming/upload', 'image')
+    ;(ctx.request as any)['__raw_files'] = {
+      files: [makeMultipartFile(join(fs.basePath, 'incoming/upload'), 'avatar.png', 5)],
+    }
+
+    const response = await new FileUploadController().handle(ctx)
+
+    assert.lengthOf((response as any).paths, 1)
+    const [filename] = (response as any).paths
+    assert.equal(TemporaryUploadedFile.extractOriginalNameFromFilePath(filename), 'avatar.png')
+    assert.isTrue(FileUploadConfiguration.disk.exists(filename))
+  })
+
+  test('should respond with 422 when rules fail', async ({ assert, cleanup, fs }) => {
+    const { app, ctx } = await createContext(true)
+    cleanup(() => app.terminate())
+
+    await fs.create('incoming/upload', 'text')
+    ;(ctx.request as any)['__raw_files'] = {
+      files: [makeMultipartFile(join(fs.basePath, 'incoming/upload'), 'notes.txt', 4)],
+    }
+
+    await new FileUploadController().handle(ctx)
+
+    assert.equal(ctx.response.getStatus(), 422)
+    assert.properties(ctx.response.getBody().errors, ['files.0'])
+  })
+})
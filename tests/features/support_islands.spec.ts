@@ -0,0 +1,158 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { Edge } from 'edge.js'
+import { setupApp } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { edgePluginLivewire } from '../../src/plugins/edge/plugin.js'
+import { SupportIslands } from '../../src/features/support_islands/support_islands.js'
+
+class DashboardComponent extends Component {
+  visits = 1
+
+  addVisit() {
+    this.visits++
+  }
+
+  loadMore() {
+    this.visits++
+    this.renderIsland('stats', 'append')
+  }
+
+  async render() {
+    return Promise.resolve(`<div>
+      <h1>Dashboard</h1>
+      @island('stats')
+        <p>{{ visits }} visits</p>
+      @end
+      @island('chart', { lazy: true, placeholder: '<span>Loading</span>' })
+        <canvas></canvas>
+      @end
+      @island('feed', { defer: true })
+        <ul></ul>
+      @end
+    </div>`)
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+function islandCall(name: string, method = '$refresh') {
+  return { method, params: [], metadata: { island: { name } } }
+}
+
+test.group('Support Islands', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportIslands]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+
+    const edge = Edge.create()
+    edge.use(edgePluginLivewire(app, livewire, '1.0.0'))
+    Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+
+    livewire.component('dashboard', DashboardComponent)
+
+    const html = await livewire.mount(ctx, 'dashboard')
+    return { app, ctx, livewire, html, snapshot: extractSnapshot(html) }
+  }
+
+  test('should wrap islands in fragment markers on mount', async ({ assert, cleanup }) => {
+    const { app, html, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const token = SupportIslands.generateToken({ getId: () => snapshot.memo.id } as any, 'stats')
+
+    assert.match(
+      html,
+      new RegExp(
+        `<!--\\[if FRAGMENT:type=island\\|name=stats\\|token=${token}\\|mode=morph\\]><!\\[endif\\]-->` +
+          `\\s*<p>1 visits</p>\\s*` +
+          `<!--\\[if ENDFRAGMENT:type=island\\|name=stats\\|token=${token}\\|mode=morph\\]><!\\[endif\\]-->`
+      )
+    )
+    assert.deepEqual(snapshot.memo.islands.stats, { token, loaded: true })
+  })
+
+  test('should render placeholders for lazy and deferred islands', async ({ assert, cleanup }) => {
+    const { app, html, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    assert.include(html, `<span x-intersect="$wire.$island(&#039;chart&#039;)">Loading</span>`)
+    assert.include(html, `<div x-init="$wire.$island(&#039;feed&#039;)"></div>`)
+    assert.notInclude(html, '<canvas>')
+    assert.isFalse(snapshot.memo.islands.chart.loaded)
+    assert.isFalse(snapshot.memo.islands.feed.loaded)
+  })
+
+  test('should only send the island back for island actions', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      islandCall('stats', 'addVisit'),
+    ])
+
+    assert.isUndefined(effects.html)
+    assert.lengthOf(effects.islandFragments, 1)
+    assert.match(effects.islandFragments[0], /name=stats.*<p>2 visits<\/p>/s)
+    assert.equal(newSnapshot.data.visits, 2)
+  })
+
+  test('should load lazy islands when requested', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [islandCall('chart')])
+
+    assert.include(effects.islandFragments[0], '<canvas></canvas>')
+    assert.isTrue(newSnapshot.memo.islands!.chart.loaded)
+    assert.isFalse(newSnapshot.memo.islands!.feed.loaded)
+
+    const [, nextEffects] = await livewire.update(ctx, newSnapshot, {}, [])
+    assert.include(nextEffects.html, '<canvas></canvas>')
+    assert.include(nextEffects.html, `x-init="$wire.$island(&#039;feed&#039;)"`)
+  })
+
+  test('should render the whole component for regular actions', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'addVisit', params: [] },
+    ])
+
+    assert.include(effects.html, '<p>2 visits</p>')
+    assert.isUndefined(effects.islandFragments)
+  })
+
+  test('should render an island from an action with renderIsland', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'loadMore', params: [] },
+    ])
+
+    assert.isUndefined(effects.html)
+    assert.match(
+      effects.islandFragments[0],
+      /name=stats\|token=\w+\|mode=append.*<p>2 visits<\/p>/s
+    )
+  })
+})
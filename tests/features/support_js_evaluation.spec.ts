@@ -6,6 +6,10 @@ import { livewireContext, DataStore } from '../../src/store.js'
 import ComponentContext from '../../src/component_context.js'
 import { store } from '../../src/store.js'
 import { SupportJsEvaluation } from '../../src/features/support_js_evaluation/support_js_evaluation.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { js } from '../../src/decorators/index.js'
 
 class JsEvaluationTestComponent extends Component {
   async render() {
@@ -13,6 +17,37 @@ class JsEvaluationTestComponent extends Component {
   }
 }
 
+class SidebarComponent extends Component {
+  open = false
+  label = 'Menu'
+
+  @js()
+  toggle() {
+    return '$wire.open = !$wire.open'
+  }
+
+  evaluated = 0
+
+  @js()
+  async announce() {
+    this.evaluated++
+    return Promise.resolve(`alert(${JSON.stringify(this.label)})`)
+  }
+
+  rename(label: string) {
+    this.label = label
+  }
+
+  async render() {
+    return Promise.resolve('<div>Sidebar</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
 test.group('HandlesJsEvaluation', () => {
   test('should add js expression to store (PHP parity: { expression, params })', async ({
     assert,
@@ -245,3 +280,90 @@ test.group('SupportJsEvaluation', () => {
     )
   })
 })
+
+test.group('Js decorator', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators, SupportJsEvaluation]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  test('should ship @js methods in the effects on mount', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('sidebar', SidebarComponent)
+
+    const html = await livewire.mount(ctx, 'sidebar')
+    const effects = JSON.parse(
+      html
+        .match(/wire:effects="([^"]*)"/)![1]
+        .replaceAll('&quot;', '"')
+        .replaceAll('&#039;', "'")
+    )
+
+    assert.deepEqual(effects.js, {
+      toggle: '$wire.open = !$wire.open',
+      announce: 'alert("Menu")',
+    })
+  })
+
+  test('should only evaluate @js methods on mount', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('sidebar', SidebarComponent)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'sidebar'))
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'rename', params: ['Navigation'] },
+    ])
+
+    assert.equal(snapshot.data.evaluated, 1)
+    assert.equal(newSnapshot.data.evaluated, 1)
+    assert.isUndefined(effects.js)
+    assert.isUndefined(effects.xjs)
+  })
+
+  test('should ship @js methods next to js() expressions', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const component = new SidebarComponent({ ctx, app, router, id: 'sidebar-id', name: 'sidebar' })
+    const componentContext = new ComponentContext(component, true)
+
+    await livewireContext.run(
+      { dataStore: new DataStore('test-store'), context: componentContext, features: [], ctx },
+      async () => {
+        component.js('console.log("opened")')
+        for (const decorator of component.getDecorators()) {
+          decorator.__boot(component)
+          await decorator.dehydrate?.(componentContext)
+        }
+
+        const hook = new SupportJsEvaluation()
+        hook.setComponent(component)
+        hook.setApp(app)
+        await hook.dehydrate(componentContext)
+
+        assert.deepEqual(componentContext.effects.js, {
+          toggle: '$wire.open = !$wire.open',
+          announce: 'alert("Menu")',
+        })
+        assert.deepEqual(componentContext.effects.xjs, [
+          { expression: 'console.log("opened")', params: [] },
+        ])
+      }
+    )
+  })
+})
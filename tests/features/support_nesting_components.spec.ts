@@ -0,0 +1,138 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { Edge } from 'edge.js'
+import { setupApp } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { edgePluginLivewire } from '../../src/plugins/edge/plugin.js'
+import { SupportNestingComponents } from '../../src/features/support_nesting_components/support_nesting_components.js'
+
+let childMounts = 0
+
+class ChildComponent extends Component {
+  count = 0
+
+  mount() {
+    childMounts++
+  }
+
+  async render() {
+    return Promise.resolve('<span>Child {{ count }}</span>')
+  }
+}
+
+class KeyedParentComponent extends Component {
+  async render() {
+    return Promise.resolve(`<div>
+      @livewire('child', {}, { key: 'first' })
+    </div>`)
+  }
+}
+
+class LoopParentComponent extends Component {
+  items = [1, 2]
+
+  async render() {
+    return Promise.resolve(`<div>
+      @each(item in items)
+        @livewire('child')
+      @end
+    </div>`)
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Support Nesting Components', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportNestingComponents]
+    childMounts = 0
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+
+    const edge = Edge.create()
+    edge.use(edgePluginLivewire(app, livewire, '1.0.0'))
+    Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+
+    livewire.component('child', ChildComponent)
+    livewire.component('keyed-parent', KeyedParentComponent)
+    livewire.component('loop-parent', LoopParentComponent)
+
+    return { app, ctx, livewire }
+  }
+
+  test('should record rendered children in memo on mount', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const html = await livewire.mount(ctx, 'keyed-parent')
+    const snapshot = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+
+    assert.equal(childMounts, 1)
+    assert.deepEqual(Object.keys(snapshot.memo.children), ['first'])
+    assert.equal(snapshot.memo.children.first[0], 'span')
+    assert.include(html, 'wire:key="first"')
+  })
+
+  test('should generate distinct keys for children rendered in a loop', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const html = await livewire.mount(ctx, 'loop-parent')
+    const snapshot = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+    const keys = Object.keys(snapshot.memo.children)
+
+    assert.equal(childMounts, 2)
+    assert.lengthOf(keys, 2)
+    assert.match(keys[0], /^lw-[a-f0-9]{8}-0$/)
+    assert.match(keys[1], /^lw-[a-f0-9]{8}-1$/)
+  })
+
+  test('should render placeholders for existing children on update', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const html = await livewire.mount(ctx, 'keyed-parent')
+    const snapshot = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+    const [, childId] = snapshot.memo.children.first
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [])
+
+    assert.equal(childMounts, 1)
+    assert.include(effects.html, `<span wire:id="${childId}"></span>`)
+    assert.deepEqual(newSnapshot.memo.children, { first: ['span', childId] })
+  })
+
+  test('should verify checksum when the client rewrites children', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const html = await livewire.mount(ctx, 'keyed-parent')
+    const snapshot = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+    snapshot.memo.children = {}
+
+    await assert.doesNotReject(() => livewire.update(ctx, snapshot, {}, []))
+    assert.equal(childMounts, 2)
+  })
+})
@@ -0,0 +1,145 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory, RequestFactory } from '@adonisjs/core/factories/http'
+import { defineConfig } from '../../src/define_config.js'
+import { PayloadGuard } from '../../src/features/support_payload_limits/payload_guard.js'
+import { PayloadTooLargeException } from '../../src/features/support_payload_limits/payload_too_large_exception.js'
+import { TooManyComponentsException } from '../../src/features/support_payload_limits/too_many_components_exception.js'
+import { InvalidPayloadException } from '../../src/features/support_payload_limits/invalid_payload_exception.js'
+
+function createContext(body: Record<string, any>, raw?: string) {
+  const ctx = new HttpContextFactory().merge({ request: new RequestFactory().create() }).create()
+  ctx.request.setInitialBody(body)
+  if (raw !== undefined) {
+    ctx.request.updateRawBody(raw)
+  }
+  return ctx
+}
+
+test.group('PayloadGuard', () => {
+  test('should measure payload size from the raw body', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const ctx = createContext({}, '{"components":[]}')
+
+    assert.equal(guard.payloadSize(ctx), 17)
+  })
+
+  test('should fall back to content-length header', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const ctx = createContext({})
+    ctx.request.request.headers['content-length'] = '2048'
+
+    assert.equal(guard.payloadSize(ctx), 2048)
+  })
+
+  test('should count multibyte characters as bytes', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const ctx = createContext({}, 'ééé')
+
+    assert.equal(guard.payloadSize(ctx), 6)
+  })
+
+  test('should allow payloads within maxSize', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({ limits: { maxSize: 100 } }).limits)
+    const ctx = createContext({ components: [] }, 'x'.repeat(100))
+
+    assert.doesNotThrow(() => guard.validateSize(ctx))
+  })
+
+  test('should throw PayloadTooLargeException when maxSize is exceeded', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({ limits: { maxSize: 100 } }).limits)
+    const ctx = createContext({ components: [] }, 'x'.repeat(101))
+
+    try {
+      guard.validateSize(ctx)
+      assert.fail('Expected PayloadTooLargeException')
+    } catch (error) {
+      assert.instanceOf(error, PayloadTooLargeException)
+      assert.equal(error.status, 413)
+      assert.equal(error.code, 'E_LIVEWIRE_PAYLOAD_TOO_LARGE')
+      assert.include(error.message, 'Maximum allowed: 100 bytes, received: 101')
+    }
+  })
+
+  test('should allow up to maxComponents components', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({ limits: { maxComponents: 2 } }).limits)
+
+    assert.doesNotThrow(() => guard.validateComponents([{}, {}]))
+  })
+
+  test('should throw TooManyComponentsException when maxComponents is exceeded', async ({
+    assert,
+  }) => {
+    const guard = new PayloadGuard(defineConfig({ limits: { maxComponents: 2 } }).limits)
+
+    try {
+      guard.validateComponents([{}, {}, {}])
+      assert.fail('Expected TooManyComponentsException')
+    } catch (error) {
+      assert.instanceOf(error, TooManyComponentsException)
+      assert.equal(error.status, 422)
+      assert.equal(error.code, 'E_LIVEWIRE_TOO_MANY_COMPONENTS')
+      assert.include(error.message, 'Maximum allowed: 2, received: 3')
+    }
+  })
+
+  test('validate should check size before components', async ({ assert }) => {
+    const guard = new PayloadGuard(
+      defineConfig({ limits: { maxSize: 10, maxComponents: 1 } }).limits
+    )
+    const ctx = createContext({ components: [{}, {}] }, 'x'.repeat(50))
+
+    assert.throws(() => guard.validate(ctx), PayloadTooLargeException as any)
+  })
+
+  test('validate should return the request components', async ({ assert }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const components = [{ snapshot: '{}', updates: {}, calls: [] }]
+    const ctx = createContext({ components }, JSON.stringify({ components }))
+
+    assert.deepEqual(guard.validate(ctx), components)
+  })
+  test('should throw InvalidPayloadException when components is not an array', async ({
+    assert,
+  }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const ctx = createContext({ components: { length: 1 } }, '{}')
+
+    try {
+      guard.validate(ctx)
+      assert.fail('Expected InvalidPayloadException')
+    } catch (error) {
+      assert.instanceOf(error, InvalidPayloadException)
+      assert.equal(error.status, 400)
+      assert.equal(error.code, 'E_LIVEWIRE_INVALID_PAYLOAD')
+      assert.include(error.message, 'components must be an array')
+    }
+  })
+
+  test('should reject components that are not shaped like the client sends them', async ({
+    assert,
+  }) => {
+    const guard = new PayloadGuard(defineConfig({}).limits)
+    const component = { snapshot: '{}', updates: {}, calls: [] }
+
+    assert.throws(() => guard.validateShape(['x']), 'components.0 must be an object')
+    assert.throws(
+      () => guard.validateShape([{ ...component, snapshot: {} }]),
+      'components.0.snapshot must be a string'
+    )
+    assert.throws(
+      () => guard.validateShape([component, { ...component, updates: [] }]),
+      'components.1.updates must be an object'
+    )
+    assert.throws(
+      () => guard.validateShape([{ ...component, calls: 'save' }]),
+      'components.0.calls must be an array'
+    )
+    assert.throws(
+      () => guard.validateShape([{ ...component, calls: [{ method: 'save', params: 'x' }] }]),
+      'components.0.calls.0 must have a method and params'
+    )
+    assert.doesNotThrow(() =>
+      guard.validateShape([{ ...component, calls: [{ method: 'save', params: [1] }] }])
+    )
+  })
+})
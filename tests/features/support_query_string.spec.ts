@@ -5,6 +5,11 @@ import { Component } from '../../src/component.js'
 import { livewireContext, DataStore } from '../../src/store.js'
 import ComponentContext from '../../src/component_context.js'
 import Url from '../../src/features/support_query_string/url.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { DateSynth } from '../../src/synthesizers/date.js'
+import { url } from '../../src/decorators/index.js'
 
 class QueryStringTestComponent extends Component {
   search = ''
@@ -29,13 +34,13 @@ test.group('Url Decorator', () => {
   })
 
   test('should create Url decorator with all parameters', async ({ assert }) => {
-    const decorator = new Url('search', 'q', true, true, ['page'], true)
+    const decorator = new Url('search', 'q', true, true, '', true)
 
     assert.equal(decorator.name, 'search')
     assert.equal(decorator.as, 'q')
     assert.isTrue(decorator.history)
     assert.isTrue(decorator.keep)
-    assert.deepEqual(decorator.except, ['page'])
+    assert.equal(decorator.except, '')
     assert.isTrue(decorator.nullable)
   })
 
@@ -188,7 +193,7 @@ test.group('Url Decorator', () => {
     await livewireContext.run(
       { dataStore, context: componentContext, features: [], ctx },
       async () => {
-        const decorator = new Url('search', 'q', true, true, ['page'], false)
+        const decorator = new Url('search', 'q', true, true, '', false)
         decorator.__boot(component)
 
         await decorator.dehydrate(componentContext)
@@ -198,7 +203,7 @@ test.group('Url Decorator', () => {
             as: 'q',
             use: 'push',
             alwaysShow: true,
-            except: ['page'],
+            except: '',
           },
         })
       }
@@ -261,7 +266,8 @@ test.group('Url Decorator', () => {
 
         component.filter = null
 
-        await decorator.update('filter', null)
+        const finish = await decorator.update('filter', 'filter', null)
+        finish?.()
 
         assert.equal(component.filter, '')
       }
@@ -292,8 +298,9 @@ test.group('Url Decorator', () => {
 
         component.filter = null
 
-        await decorator.update('filter', null)
+        const finish = await decorator.update('filter', 'filter', null)
 
+        assert.isUndefined(finish)
         assert.isNull(component.filter)
       }
     )
@@ -323,7 +330,7 @@ test.group('Url Decorator', () => {
 
         component.filter = 'value'
 
-        await decorator.update('filter', 'new value')
+        await decorator.update('filter', 'filter', 'new value')
 
         assert.equal(component.filter, 'value') // Should not change
       }
@@ -394,3 +401,148 @@ test.group('Url Decorator', () => {
     )
   })
 })
+
+class PostsTable extends Component {
+  @url({ as: 'q', history: true })
+  search: string = ''
+
+  @url({ except: 1 })
+  page: number = 1
+
+  @url({ keep: true })
+  archived: boolean = false
+
+  @url()
+  tags: string[] = []
+
+  @url()
+  since?: Date
+
+  async render() {
+    return Promise.resolve('<div>Posts</div>')
+  }
+}
+
+function extractAttribute(html: string, name: string) {
+  const match = html.match(new RegExp(`${name}="([^"]*)"`))
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('@url', (group) => {
+  let features: typeof Livewire.FEATURES
+  let synthesizers: typeof Livewire.PROPERTY_SYNTHESIZERS
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    synthesizers = Livewire.PROPERTY_SYNTHESIZERS
+    Livewire.FEATURES = [SupportDecorators]
+    Livewire.PROPERTY_SYNTHESIZERS = [DateSynth]
+
+    return () => {
+      Livewire.FEATURES = features
+      Livewire.PROPERTY_SYNTHESIZERS = synthesizers
+    }
+  })
+
+  async function mount(qs: Record<string, any>, body: Record<string, any> = {}) {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    ctx.request.updateQs(qs)
+    ctx.request.updateBody(body)
+
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('posts-table', PostsTable)
+
+    const html = await livewire.mount(ctx, 'posts-table')
+    return {
+      app,
+      ctx,
+      livewire,
+      snapshot: extractAttribute(html, 'wire:snapshot'),
+      effects: extractAttribute(html, 'wire:effects'),
+    }
+  }
+
+  test('should cast query string values to the declared types', async ({ assert, cleanup }) => {
+    const { app, snapshot } = await mount({
+      q: 'adonis',
+      page: '3',
+      archived: 'true',
+      tags: 'edge',
+      since: '2024-01-01T00:00:00.000Z',
+    })
+    cleanup(() => app.terminate())
+
+    assert.equal(snapshot.data.search, 'adonis')
+    assert.strictEqual(snapshot.data.page, 3)
+    assert.isTrue(snapshot.data.archived)
+    assert.deepEqual(snapshot.data.tags, ['edge'])
+    assert.deepEqual(snapshot.data.since, ['2024-01-01T00:00:00.000Z', { s: 'date' }])
+  })
+
+  test('should keep values that cannot be cast', async ({ assert, cleanup }) => {
+    const { app, snapshot } = await mount({ page: 'last', since: 'yesterday' })
+    cleanup(() => app.terminate())
+
+    assert.equal(snapshot.data.page, 'last')
+    assert.equal(snapshot.data.since, 'yesterday')
+  })
+
+  test('should only read the query string', async ({ assert, cleanup }) => {
+    const { app, snapshot } = await mount({ search: 'adonis' }, { page: '3', q: 'lucid' })
+    cleanup(() => app.terminate())
+
+    assert.equal(snapshot.data.search, '')
+    assert.equal(snapshot.data.page, 1)
+  })
+
+  test('should push or replace history entries', async ({ assert, cleanup }) => {
+    const { app, effects } = await mount({})
+    cleanup(() => app.terminate())
+
+    assert.deepEqual(effects.url.search, { as: 'q', use: 'push', alwaysShow: false, except: null })
+    assert.deepEqual(effects.url.page, {
+      as: null,
+      use: 'replace',
+      alwaysShow: false,
+      except: 1,
+    })
+    assert.deepEqual(effects.url.archived, {
+      as: null,
+      use: 'replace',
+      alwaysShow: true,
+      except: null,
+    })
+  })
+
+  test('should send the value removed from the query string to the client', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, snapshot, effects } = await mount({ page: '1' })
+    cleanup(() => app.terminate())
+
+    assert.strictEqual(effects.url.page.except, 1)
+    assert.equal(JSON.stringify(effects.url.page.except), JSON.stringify(snapshot.data.page))
+  })
+
+  test('should clear non-nullable properties updated to null', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await mount({ q: 'adonis' })
+    cleanup(() => app.terminate())
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, { search: null }, [])
+
+    assert.strictEqual(newSnapshot.data.search, '')
+  })
+
+  test('should accept the parameter name', ({ assert }) => {
+    class Search extends Component {
+      @url('q')
+      search = ''
+    }
+
+    const [decorator] = new Search({} as any).getDecorators() as Url[]
+    assert.equal(decorator.as, 'q')
+    assert.isFalse(decorator.history)
+  })
+})
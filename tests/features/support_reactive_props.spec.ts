@@ -0,0 +1,126 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { Edge } from 'edge.js'
+import { setupApp } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { edgePluginLivewire } from '../../src/plugins/edge/plugin.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { SupportNestingComponents } from '../../src/features/support_nesting_components/support_nesting_components.js'
+import { SupportReactiveProps } from '../../src/features/support_reactive_props/support_reactive_props.js'
+import { reactive } from '../../src/decorators/index.js'
+
+class TodoCount extends Component {
+  @reactive()
+  todos: string[] = []
+
+  label = 'Todos'
+
+  async render() {
+    return Promise.resolve('<span>{{ label }}: {{ todos.length }}</span>')
+  }
+}
+
+class TodoList extends Component {
+  todos = ['Write docs']
+
+  add(todo: string) {
+    this.todos.push(todo)
+  }
+
+  async render() {
+    return Promise.resolve(`<div>
+      @livewire('todo-count', { todos }, { key: 'count' })
+    </div>`)
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Support Reactive Props', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators, SupportNestingComponents, SupportReactiveProps]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const livewire = new LivewireFactory(app).merge({ router }).create()
+    const edge = Edge.create()
+    edge.use(edgePluginLivewire(app, livewire, '1.0.0'))
+
+    livewire.component('todo-count', TodoCount)
+    livewire.component('todo-list', TodoList)
+
+    /**
+     * Every request gets its own context, like the components of a batch
+     */
+    const request = () => {
+      const ctx = new HttpContextFactory().create()
+      Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+      return ctx
+    }
+
+    const html = await livewire.mount(request(), 'todo-list')
+    const child = extractSnapshot(html.match(/<span[^>]*>/)![0])
+    const parent = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+
+    return { app, livewire, request, parent, child }
+  }
+
+  test('should list reactive props in the memo', async ({ assert, cleanup }) => {
+    const { app, parent, child } = await setup()
+    cleanup(() => app.terminate())
+
+    assert.deepEqual(child.memo.props, ['todos'])
+    assert.deepEqual(child.data.todos, ['Write docs'])
+    assert.isUndefined(parent.memo.props)
+  })
+
+  test('should push new values into children rendered by the parent', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, livewire, request, parent, child } = await setup()
+    cleanup(() => app.terminate())
+
+    const ctx = request()
+    const [, parentEffects] = await livewire.update(ctx, parent, {}, [
+      { method: 'add', params: ['Ship it'] },
+    ])
+    const [newChild, effects] = await livewire.update(ctx, child, {}, [])
+
+    assert.include(parentEffects.html!, `wire:id="${child.memo.id}"`)
+    assert.deepEqual(newChild.data.todos, ['Write docs', 'Ship it'])
+    assert.include(effects.html!, 'Todos: 2')
+  })
+
+  test('should keep values when the parent did not render again', async ({ assert, cleanup }) => {
+    const { app, livewire, request, child } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newChild] = await livewire.update(request(), child, {}, [])
+
+    assert.deepEqual(newChild.data.todos, ['Write docs'])
+  })
+
+  test('should not let the browser update reactive props', async ({ assert, cleanup }) => {
+    const { app, livewire, request, child } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(request(), child, { todos: [] }, []),
+      'Cannot mutate reactive prop [todos] in component: [todo-count]'
+    )
+  })
+})
@@ -1,11 +1,16 @@
 import { test } from '@japa/runner'
 import { HttpContextFactory } from '@adonisjs/core/factories/http'
-import { setupApp } from '../helpers.js'
+import { setupApp, setupFakeAdonisProject } from '../helpers.js'
 import { Component } from '../../src/component.js'
 import { livewireContext, DataStore } from '../../src/store.js'
 import ComponentContext from '../../src/component_context.js'
 import { store } from '../../src/store.js'
 import Renderless from '../../src/features/support_renderless/renderless.js'
+import Livewire from '../../src/livewire.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { Testable } from '../../src/features/support_testing/testable.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { renderless } from '../../src/decorators/index.js'
 
 class RenderlessTestComponent extends Component {
   async render() {
@@ -13,6 +18,30 @@ class RenderlessTestComponent extends Component {
   }
 }
 
+class LikeButton extends Component {
+  likes = 0
+  views = 0
+
+  @renderless()
+  trackView() {
+    this.views++
+  }
+
+  like(quietly: boolean = false) {
+    this.likes++
+    if (quietly) this.skipRender()
+  }
+
+  async render() {
+    return Promise.resolve('<div>{{ likes }} likes</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
 test.group('Renderless Decorator', () => {
   test('should call skipRender when call is invoked', async ({ assert, cleanup }) => {
     const { app, router } = await setupApp()
@@ -27,10 +56,10 @@ test.group('Renderless Decorator', () => {
     await livewireContext.run(
       { dataStore, context: componentContext, features: [], ctx },
       async () => {
-        const decorator = new Renderless()
+        const decorator = new Renderless('trackView')
         decorator.__boot(component)
 
-        decorator.call()
+        await decorator.call('trackView')
 
         assert.isTrue(store(component).has('skipRender'))
         assert.equal(store(component).get('skipRender'), true)
@@ -38,7 +67,7 @@ test.group('Renderless Decorator', () => {
     )
   })
 
-  test('should set skipRender to true in store', async ({ assert, cleanup }) => {
+  test('should not call skipRender for other methods', async ({ assert, cleanup }) => {
     const { app, router } = await setupApp()
     cleanup(() => app.terminate())
 
@@ -51,14 +80,96 @@ test.group('Renderless Decorator', () => {
     await livewireContext.run(
       { dataStore, context: componentContext, features: [], ctx },
       async () => {
-        const decorator = new Renderless()
+        const decorator = new Renderless('trackView')
         decorator.__boot(component)
 
-        decorator.call()
+        await decorator.call('like')
 
-        const skipRender = store(component).get('skipRender')
-        assert.isTrue(skipRender === true)
+        assert.isFalse(store(component).has('skipRender'))
       }
     )
   })
 })
+
+test.group('Renderless actions', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('like-button', LikeButton)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'like-button'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should only skip rendering for the decorated method', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [viewed, viewEffects] = await livewire.update(ctx, structuredClone(snapshot), {}, [
+      { method: 'trackView', params: [] },
+    ])
+    assert.equal(viewed.data.views, 1)
+    assert.isUndefined(viewEffects.html)
+
+    const [, likeEffects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'like', params: [] },
+    ])
+    assert.include(likeEffects.html, '1 likes')
+  })
+
+  test('should skip rendering conditionally with skipRender()', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [liked, effects] = await livewire.update(ctx, structuredClone(snapshot), {}, [
+      { method: 'like', params: [true] },
+    ])
+    assert.equal(liked.data.likes, 1)
+    assert.isUndefined(effects.html)
+
+    const [, nextEffects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'like', params: [false] },
+    ])
+    assert.include(nextEffects.html, '1 likes')
+  })
+
+  test('should assert rendering with Testable', async ({ assert, cleanup }) => {
+    await setupFakeAdonisProject()
+
+    const { app, router } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+    cleanup(() => app.terminate())
+
+    const testable = new Testable(LikeButton, app, router, new HttpContextFactory().create())
+
+    await testable.mount()
+    testable.assertRendered()
+
+    await testable.call('trackView')
+    testable.assertNotRendered().assertSet('views', 1).assertSee('0 likes')
+
+    await testable.call('like')
+    testable.assertRendered().assertSee('1 likes')
+
+    await testable.call('like', true)
+    testable.assertNotRendered()
+
+    assert.throws(() => testable.assertRendered(), /was rendered/)
+  })
+})
@@ -0,0 +1,106 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp, setupFakeAdonisProject } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Session from '../../src/features/support_session/session.js'
+import { createTestingSession } from '../../src/features/support_session/tests_session.js'
+import { session } from '../../src/decorators/index.js'
+
+class PostsTable extends Component {
+  authorId = 0
+
+  @session()
+  search = ''
+
+  @session('posts:{authorId}:status')
+  status = 'published'
+
+  mount({ authorId = 1 }: { authorId?: number } = {}) {
+    this.authorId = authorId
+  }
+
+  async render() {
+    return Promise.resolve('<div>Posts</div>')
+  }
+}
+
+async function setup() {
+  await setupFakeAdonisProject()
+
+  return await setupApp([
+    {
+      file: () => import('../../providers/livewire_provider.js'),
+      environment: ['test', 'web'],
+    },
+  ])
+}
+
+test.group('Support Session', () => {
+  test('should read properties from the session on mount', async ({ cleanup }) => {
+    const { app } = await setup()
+    cleanup(() => app.terminate())
+
+    const livewire = await app.container.make('livewire')
+    const testable = livewire
+      .withHttpContext(new HttpContextFactory().create())
+      .withSession({
+        'livewire:test-component:search': 'adonis',
+        'posts:7:status': 'draft',
+      })
+      .test(PostsTable)
+
+    await testable.mount({ authorId: 7 })
+
+    testable.assertSet('search', 'adonis').assertSet('status', 'draft')
+  })
+
+  test('should write properties back to the session', async ({ cleanup }) => {
+    const { app } = await setup()
+    cleanup(() => app.terminate())
+
+    const livewire = await app.container.make('livewire')
+    const testable = livewire
+      .withHttpContext(new HttpContextFactory().create())
+      .withSession({})
+      .test(PostsTable)
+
+    await testable.mount()
+    testable
+      .assertSessionHas('livewire:test-component:search', '')
+      .assertSessionHas('posts:1:status', 'published')
+      .assertSessionMissing('posts:7:status')
+
+    await testable.set('search', 'lucid')
+    testable.assertSessionHas('livewire:test-component:search', 'lucid')
+  })
+
+  test('should fail on placeholders that cannot be resolved', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    Object.assign(ctx, { session: createTestingSession(app, ctx) })
+
+    const component = new PostsTable({ ctx, app, router, id: 'posts-1', name: 'posts-table' })
+    const decorator = new Session('status', 'posts:{author.id}:status')
+    decorator.__boot(component)
+
+    await assert.rejects(
+      () => decorator.mount(),
+      'Unable to evaluate dynamic session key placeholder: {author.id}'
+    )
+    assert.equal(decorator.resolveKey({ author: { id: 3 } }), 'posts:3:status')
+  })
+
+  test('should require a session', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const component = new PostsTable({ ctx, app, router, id: 'posts-1', name: 'posts-table' })
+    const decorator = new Session('search')
+    decorator.__boot(component)
+
+    await assert.rejects(() => decorator.dehydrate(), /without a session/)
+  })
+})
@@ -0,0 +1,310 @@
+import getPort from 'get-port'
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import { test } from '@japa/runner'
+import { HttpContextFactory, RequestFactory, ResponseFactory } from '@adonisjs/core/factories/http'
+import { SessionMiddlewareFactory } from '@adonisjs/session/factories'
+import { setupApp, setupFakeAdonisProject, runJapaTest, httpServer } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import { Testable } from '../../src/features/support_testing/testable.js'
+import { SupportStreaming } from '../../src/features/support_streaming/support_streaming.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { livewireContext, DataStore, store } from '../../src/store.js'
+import ComponentContext from '../../src/component_context.js'
+import { session } from '../../src/decorators/index.js'
+
+class StreamingComponent extends Component {
+  answer = ''
+
+  async ask() {
+    await this.stream('answer', 'Hello')
+    await this.stream('answer', ' World')
+    this.answer = 'Hello World'
+  }
+
+  async restart() {
+    await this.stream('answer', 'Hello')
+    await this.stream('answer', 'Bye', true)
+  }
+
+  async render() {
+    return Promise.resolve('<div wire:stream="answer">{{ answer }}</div>')
+  }
+}
+
+class DraftingStreamComponent extends Component {
+  @session()
+  draft = ''
+
+  async ask() {
+    this.ctx.session.flash('notice', 'Draft saved')
+    await this.stream('draft', 'Hello')
+    this.draft = 'Written after streaming'
+  }
+
+  async render() {
+    return Promise.resolve('<div wire:stream="draft">{{ draft }}</div>')
+  }
+}
+
+class FailingStreamComponent extends Component {
+  answer = ''
+
+  async ask() {
+    await this.stream('answer', 'Hello')
+    throw new Error('Model failed')
+  }
+
+  async render() {
+    return Promise.resolve('<div wire:stream="answer">{{ answer }}</div>')
+  }
+}
+
+test.group('HandlesStreaming', () => {
+  test('should record streamed chunks in the store', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const component = new StreamingComponent({ ctx, app, router, id: 'test-id', name: 'test' })
+
+    const dataStore = new DataStore('test-store')
+    const componentContext = new ComponentContext(component, false)
+
+    await livewireContext.run(
+      { dataStore, context: componentContext, features: [], ctx },
+      async () => {
+        await component.stream('answer', 'Hello', true)
+
+        assert.deepEqual(store(component).get('streamed'), [
+          {
+            id: 'test-id',
+            type: 'directive',
+            name: 'answer',
+            el: null,
+            ref: null,
+            content: 'Hello',
+            mode: 'replace',
+          },
+        ])
+        assert.isFalse(ctx.response.response.headersSent)
+      }
+    )
+  })
+
+  test('should only stream during livewire requests', async ({ assert }) => {
+    const ctx = new HttpContextFactory().create()
+    assert.isFalse(SupportStreaming.canStream(ctx))
+
+    ctx.request.request.headers['x-livewire'] = '1'
+    assert.isTrue(SupportStreaming.canStream(ctx))
+  })
+
+  test('should resolve streamed content like the client', async ({ assert }) => {
+    const chunk = { id: 'a', type: 'directive', name: 'answer', el: null, ref: null } as const
+
+    assert.equal(
+      SupportStreaming.resolveStreamedContent([
+        { ...chunk, content: 'Hello', mode: 'default' },
+        { ...chunk, content: 'Bye', mode: 'replace' },
+        { ...chunk, content: '!', mode: 'default' },
+      ]),
+      'Bye!'
+    )
+  })
+})
+
+test.group('TestsStreaming', () => {
+  async function setup() {
+    await setupFakeAdonisProject()
+
+    const { app, router } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+    const ctx = new HttpContextFactory().create()
+    return { app, testable: new Testable(StreamingComponent, app, router, ctx) }
+  }
+
+  test('should assert streamed content', async ({ assert, cleanup }) => {
+    const { app, testable } = await setup()
+    cleanup(() => app.terminate())
+
+    await testable.mount()
+    await testable.call('ask')
+
+    testable.assertStreamed('answer').assertStreamed('answer', 'Hello World')
+    testable.assertNotStreamed('question')
+    assert.lengthOf(testable.streamed(), 2)
+  })
+
+  test('should apply replace chunks when asserting content', async ({ assert, cleanup }) => {
+    const { app, testable } = await setup()
+    cleanup(() => app.terminate())
+
+    await testable.mount()
+    await testable.call('restart')
+
+    testable.assertStreamed('answer', 'Bye')
+    assert.throws(() => testable.assertStreamed('answer', 'HelloBye'), /was streamed to/)
+    assert.throws(() => testable.assertNotStreamed('answer'), /no content was streamed/)
+    assert.throws(() => testable.assertStreamed('question'), /content was streamed to/)
+  })
+})
+
+test.group('Japa API Client streaming', () => {
+  test('should parse streamed chunks and the final payload', async ({ assert, cleanup }) => {
+    const { app } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const livewire = new LivewireFactory(app).create()
+    livewire.component('test', StreamingComponent)
+
+    const server = httpServer.create(async (req, res) => {
+      const request = new RequestFactory().merge({ req, res }).create()
+      const response = new ResponseFactory().merge({ req, res }).create()
+      const ctx = new HttpContextFactory().merge({ request, response }).create()
+      ctx.containerResolver = app.container.createResolver()
+
+      const component = (await livewire.new(ctx, 'test')) as StreamingComponent
+      const dataStore = new DataStore('test-store')
+      const context = new ComponentContext(component)
+
+      const sessionMiddleware = await new SessionMiddlewareFactory().create()
+      await sessionMiddleware.handle(ctx, async () => {
+        ctx.response.header('X-Request-Id', 'abc')
+        ctx.response.plainCookie('theme', 'dark')
+        ctx.session.put('asked', true)
+
+        await livewireContext.run({ dataStore, context, features: [], ctx }, async () => {
+          await component.ask()
+
+          const snapshot = await livewire.snapshot(component, context)
+          const result = { components: [{ snapshot: JSON.stringify(snapshot), effects: {} }] }
+
+          assert.isTrue(SupportStreaming.isStreaming(ctx))
+          await SupportStreaming.endStream(ctx, result)
+        })
+      })
+    })
+
+    const port = await getPort({ port: 3333 })
+    server.listen(port)
+
+    await runJapaTest(app, async ({ client }) => {
+      const response = await client.post(`http://localhost:${port}/livewire/update`).withLivewire()
+
+      assert.equal(response.header('x-livewire-stream'), 'true')
+      assert.equal(response.header('content-type'), 'text/event-stream')
+      assert.equal(response.header('x-request-id'), 'abc')
+      assert.equal(response.cookie('theme')?.value, 'dark')
+      assert.exists(response.cookie('adonis_session'))
+
+      response
+        .livewire()
+        .assertSet('answer', 'Hello World')
+        .assertStreamed('answer', 'Hello World')
+        .assertNotStreamed('question')
+      assert.lengthOf(response.livewire().streamed(), 2)
+    })
+  })
+})
+
+test.group('Streaming update route', () => {
+  async function setup(middleware: any[] = []) {
+    await setupFakeAdonisProject()
+
+    const { app } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+
+    const livewire = await app.container.make('livewire')
+    livewire.component('failing', FailingStreamComponent)
+    livewire.component('drafting', DraftingStreamComponent)
+
+    const server = await app.container.make('server')
+    server.use([() => import('@adonisjs/core/bodyparser_middleware'), ...middleware])
+    await server.boot()
+
+    const port = await getPort({ port: 3333 })
+    httpServer.create(server.handle.bind(server)).listen(port)
+
+    async function update(name: string, method: string) {
+      const ctx = new HttpContextFactory().create()
+      const component = await livewire.new(ctx, name)
+      const context = new ComponentContext(component)
+      const snapshot = await livewireContext.run(
+        { dataStore: new DataStore('test-store'), context, features: [], ctx },
+        () => livewire.snapshot(component, context)
+      )
+
+      let response: any
+      await runJapaTest(app, async ({ client }) => {
+        response = await client
+          .post(`http://localhost:${port}/livewire/update`)
+          .withLivewire()
+          .json({
+            components: [
+              { snapshot: JSON.stringify(snapshot), updates: {}, calls: [{ method, params: [] }] },
+            ],
+          })
+      })
+      return response
+    }
+
+    return { app, update }
+  }
+
+  test('should end the stream when the action fails after streaming', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, update } = await setup()
+    cleanup(() => app.terminate())
+
+    const response = await update('failing', 'ask')
+
+    assert.equal(response.header('x-livewire-stream'), 'true')
+    assert.include(response.text(), '"content":"Hello"')
+    assert.match(response.text(), /Internal Server Error$/)
+  })
+
+  test('should persist session writes made after streaming started', async ({
+    assert,
+    cleanup,
+  }) => {
+    const written: Record<string, any>[] = []
+    const sessionStore = {
+      read: () => null,
+      write: (_id: string, values: Record<string, any>) => {
+        written.push(values)
+      },
+      destroy: () => {},
+      touch: () => {},
+    }
+    const sessionMiddleware = await new SessionMiddlewareFactory()
+      .merge({ config: { store: 'test', stores: { test: () => sessionStore } } })
+      .create()
+
+    const { app, update } = await setup([
+      async () => ({
+        default: class {
+          handle(ctx: HttpContext, next: NextFn) {
+            return sessionMiddleware.handle(ctx, next)
+          }
+        },
+      }),
+    ])
+    cleanup(() => app.terminate())
+
+    const response = await update('drafting', 'ask')
+
+    response.livewire().assertSet('draft', 'Written after streaming')
+    assert.deepEqual(written.at(-1), { 'livewire:drafting:draft': 'Written after streaming' })
+  })
+})
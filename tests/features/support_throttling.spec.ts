@@ -0,0 +1,154 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp, setupFakeAdonisProject } from '../helpers.js'
+import { Component } from '../../src/component.js'
+import Livewire from '../../src/livewire.js'
+import ComponentHook from '../../src/component_hook.js'
+import { LivewireFactory } from '../../factories/livewire_factory.js'
+import { Testable } from '../../src/features/support_testing/testable.js'
+import { SupportDecorators } from '../../src/features/support_decorators/support_decorators.js'
+import { SupportValidation } from '../../src/features/support_validation/support_validation.js'
+import { SupportThrottling } from '../../src/features/support_throttling/support_throttling.js'
+import Throttle from '../../src/features/support_throttling/throttle.js'
+import { throttle } from '../../src/decorators/index.js'
+
+const hookCalls: string[] = []
+
+class RecordCalls extends ComponentHook {
+  async call(method: string) {
+    hookCalls.push(method)
+  }
+}
+
+class ContactForm extends Component {
+  sent = 0
+  searches = 0
+
+  @throttle(2, '1 minute', { key: 'component' })
+  send() {
+    this.sent++
+  }
+
+  @throttle(1, 60)
+  search() {
+    this.searches++
+  }
+
+  async render() {
+    return Promise.resolve('<div>Contact</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Support Throttling', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators, SupportValidation, SupportThrottling, RecordCalls]
+    hookCalls.length = 0
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('contact-form', ContactForm)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'contact-form'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should throttle calls over the limit before the call hooks', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'send', params: [] },
+      { method: 'send', params: [] },
+      { method: 'send', params: [] },
+    ])
+
+    assert.equal(newSnapshot.data.sent, 2)
+    assert.deepEqual(hookCalls, ['send', 'send'])
+    assert.equal(effects.throttled?.method, 'send')
+    assert.equal(effects.throttled?.limit, 2)
+    assert.equal(effects.throttled?.remaining, 0)
+    assert.isAbove(effects.throttled!.availableIn, 0)
+    assert.match(newSnapshot.memo.errors!.send[0], /^Too many attempts/)
+  })
+
+  test('should keep the limit across requests', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [first] = await livewire.update(ctx, snapshot, {}, [{ method: 'send', params: [] }])
+    const [second] = await livewire.update(ctx, first, {}, [{ method: 'send', params: [] }])
+    const [third, effects] = await livewire.update(ctx, second, {}, [
+      { method: 'send', params: [] },
+    ])
+
+    assert.equal(third.data.sent, 2)
+    assert.equal(effects.throttled?.method, 'send')
+  })
+
+  test('should key the limit on the user, the IP or the component', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    const component = new ContactForm({ ctx, app, router, id: 'contact-1', name: 'contact-form' })
+    const make = (options: Throttle['options']) => {
+      const decorator = new Throttle('send', 1, 60, options)
+      decorator.__boot(component)
+      return decorator
+    }
+
+    assert.equal(make({ key: 'component' }).key(), 'livewire:contact-form:send:component_contact-1')
+    assert.equal(make({ key: 'ip' }).key(), `livewire:contact-form:send:ip_${ctx.request.ip()}`)
+    assert.equal(make({}).key(), `livewire:contact-form:send:ip_${ctx.request.ip()}`)
+    assert.equal(make({ key: () => 'team_1' }).key(), 'livewire:contact-form:send:team_1')
+
+    Object.defineProperty(ctx, 'auth', { value: { user: { id: 7 } } })
+    assert.equal(make({}).key(), 'livewire:contact-form:send:user_7')
+  })
+})
+
+test.group('TestsThrottling', () => {
+  test('should simulate hitting the limit', async ({ assert, cleanup }) => {
+    await setupFakeAdonisProject()
+
+    const { app, router } = await setupApp([
+      {
+        file: () => import('../../providers/livewire_provider.js'),
+        environment: ['test', 'web'],
+      },
+    ])
+    cleanup(() => app.terminate())
+
+    const testable = new Testable(ContactForm, app, router, new HttpContextFactory().create())
+
+    await testable.mount()
+    await testable.call('send')
+    testable.assertNotThrottled().assertSet('sent', 1)
+
+    await testable.exceedRateLimit('send')
+    await testable.call('send')
+    testable.assertThrottled().assertThrottled('send').assertSet('sent', 1)
+
+    assert.throws(() => testable.assertThrottled('search'), /throttled method/)
+    assert.throws(() => testable.assertNotThrottled(), /not throttled/)
+    await assert.rejects(() => testable.exceedRateLimit('render'), /not throttled/)
+  })
+})
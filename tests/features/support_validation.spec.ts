@@ -6,6 +6,7 @@ import { livewireContext, DataStore } from '../../src/store.js'
 import ComponentContext from '../../src/component_context.js'
 import vine from '@vinejs/vine'
 import Validator from '../../src/features/support_validation/validator.js'
+import { SupportValidation } from '../../src/features/support_validation/support_validation.js'
 import { validator } from '../../src/decorators/index.js'
 import type { HasValidate } from '../../src/features/support_validation/types.js'
 
@@ -579,6 +580,44 @@ test.group('Validator Decorator - Use @validator', () => {
     assert.isFalse(dec.onUpdate)
   })
 
+  test('should validate the new value once it is set', async ({ assert, cleanup }) => {
+    const { app, router } = await setupApp()
+    cleanup(() => app.terminate())
+
+    class DecoratedComponent extends Component {
+      @validator(() => vine.string().minLength(3))
+      declare name: HasValidate<string>
+
+      async render() {
+        return Promise.resolve('<div>Decorated</div>')
+      }
+    }
+
+    const ctx = new HttpContextFactory().create()
+    const component = new DecoratedComponent({ ctx, app, router, id: 'test-id', name: 'test' })
+    const hook = new SupportValidation()
+    hook.setComponent(component)
+
+    await livewireContext.run(
+      {
+        dataStore: new DataStore('test-store'),
+        context: new ComponentContext(component),
+        features: [],
+        ctx,
+      },
+      async () => {
+        component.name = 'Jo' as HasValidate<string>
+        component.setErrorBag({ name: ['Too short'] })
+
+        const finish = await hook.update('name', 'name', 'John')
+        component.name = 'John' as HasValidate<string>
+        await finish!()
+
+        assert.notProperty(component.getErrorBag(), 'name')
+      }
+    )
+  })
+
   test('should support multiple @validator decorators on same component', async ({
     assert,
     cleanup,
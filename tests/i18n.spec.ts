@@ -0,0 +1,137 @@
+import { test } from '@japa/runner'
+import vine from '@vinejs/vine'
+import type { HttpContext } from '@adonisjs/core/http'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { I18n, I18nManager, formatters } from '@adonisjs/i18n'
+import type { ApplicationService } from '@adonisjs/core/types'
+import { setupApp } from './helpers.js'
+import { Component } from '../src/component.js'
+import Livewire from '../src/livewire.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { SupportValidation } from '../src/features/support_validation/support_validation.js'
+import { getLocale, restoreLocale } from '../src/utils/i18n.js'
+
+const resolved: any[] = []
+
+class Greeting extends Component {
+  name: string | null = null
+
+  async save() {
+    resolved.push(await this.ctx.containerResolver.make(I18n))
+    await this.validateUsing(vine.object({ name: vine.string() }))
+  }
+
+  async render() {
+    return this.view.renderRaw(`<div>{{ i18n.t('messages.greeting') }}</div>`)
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+async function createI18nManager(app: ApplicationService) {
+  return new I18nManager(await app.container.make('emitter'), {
+    defaultLocale: 'en',
+    formatter: await formatters.icu().resolver(app),
+    supportedLocales: ['en', 'fr'],
+    loaders: [
+      () => ({
+        async load() {
+          return {
+            en: {
+              'messages.greeting': 'Hello',
+              'validator.shared.messages.required': 'Required',
+            },
+            fr: {
+              'messages.greeting': 'Bonjour',
+              'validator.shared.messages.required': 'Obligatoire',
+            },
+          }
+        },
+      }),
+    ],
+  })
+}
+
+/**
+ * Does what the detect_user_locale_middleware does
+ */
+function useLocale(ctx: HttpContext, i18n: I18n) {
+  Object.assign(ctx, { i18n })
+  ctx.view.share({ i18n })
+}
+
+test.group('i18n', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportValidation]
+    resolved.length = 0
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const i18nManager = await createI18nManager(app)
+    await i18nManager.loadTranslations()
+    app.container.singleton('i18n' as any, () => i18nManager)
+
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('greeting', Greeting)
+
+    return { app, ctx, router, livewire, i18nManager }
+  }
+
+  test('should store the mount-time locale in the memo', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, i18nManager } = await setup()
+    cleanup(() => app.terminate())
+
+    useLocale(ctx, i18nManager.locale('fr'))
+    const html = await livewire.mount(ctx, 'greeting')
+
+    assert.include(html, 'Bonjour')
+    assert.equal(extractSnapshot(html).memo.locale, 'fr')
+  })
+
+  test('should restore the locale on every round trip', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, i18nManager } = await setup()
+    cleanup(() => app.terminate())
+
+    useLocale(ctx, i18nManager.locale('fr'))
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'greeting'))
+
+    const updateCtx = new HttpContextFactory().create()
+    const [newSnapshot, effects] = await livewire.update(updateCtx, snapshot, {}, [
+      { method: 'save', params: [] },
+    ])
+
+    assert.equal(newSnapshot.memo.locale, 'fr')
+    assert.include(effects.html, 'Bonjour')
+    assert.equal(resolved[0].locale, 'fr')
+    assert.deepEqual(newSnapshot.memo.errors, { name: ['Obligatoire'] })
+  })
+
+  test('should default to the english locale without i18n', async ({ assert }) => {
+    assert.equal(getLocale(new HttpContextFactory().create()), 'en')
+  })
+
+  test('should fall back to the default locale for unsupported locales', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app } = await setup()
+    cleanup(() => app.terminate())
+
+    const ctx = new HttpContextFactory().create()
+    await restoreLocale(app, ctx, 'de')
+
+    assert.equal(getLocale(ctx), 'en')
+  })
+})
@@ -0,0 +1,491 @@
+import { test } from '@japa/runner'
+import { HttpContextFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from './helpers.js'
+import { Component } from '../src/component.js'
+import Livewire from '../src/livewire.js'
+import ComponentHook from '../src/component_hook.js'
+import ComponentContext from '../src/component_context.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { Edge } from 'edge.js'
+import { edgePluginLivewire } from '../src/plugins/edge/plugin.js'
+import { reactive } from '../src/decorators/index.js'
+import { SupportDecorators } from '../src/features/support_decorators/support_decorators.js'
+import { SupportNestingComponents } from '../src/features/support_nesting_components/support_nesting_components.js'
+import { SupportReactiveProps } from '../src/features/support_reactive_props/support_reactive_props.js'
+
+const calls: string[] = []
+
+class LifecycleComponent extends Component {
+  count = 1
+  total = 0
+
+  boot() {
+    calls.push('boot')
+  }
+
+  mount() {
+    calls.push('mount')
+  }
+
+  booted() {
+    calls.push('booted')
+  }
+
+  hydrate() {
+    calls.push('hydrate')
+  }
+
+  hydrateCount(value: number) {
+    calls.push(`hydrateCount:${value}`)
+  }
+
+  dehydrate() {
+    calls.push('dehydrate')
+    this.total = this.count * 10
+  }
+
+  dehydrateCount(value: number) {
+    calls.push(`dehydrateCount:${value}`)
+  }
+
+  rendering(view: any, data: Record<string, any>) {
+    calls.push(`rendering:${data.count}`)
+    view.share({ title: 'Counter' })
+  }
+
+  rendered(_view: any, html: string) {
+    calls.push(`rendered:${html.includes('Counter')}`)
+  }
+
+  increment() {
+    calls.push('increment')
+    this.count++
+  }
+
+  async render() {
+    return Promise.resolve('<div>{{ title }}: {{ count }}</div>')
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Component lifecycle hooks', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    calls.length = 0
+    features = Livewire.FEATURES
+    Livewire.FEATURES = []
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('lifecycle', LifecycleComponent)
+
+    return { app, ctx, livewire }
+  }
+
+  test('should call lifecycle hooks on mount', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const html = await livewire.mount(ctx, 'lifecycle')
+
+    assert.deepEqual(
+      [...calls],
+      ['boot', 'mount', 'booted', 'rendering:1', 'rendered:true', 'dehydrate', 'dehydrateCount:1']
+    )
+    assert.include(html, 'Counter: 1')
+    assert.equal(extractSnapshot(html).data.total, 10)
+  })
+
+  test('should call lifecycle hooks on update', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'lifecycle'))
+    calls.length = 0
+
+    const [newSnapshot, effects] = await livewire.update(ctx, snapshot, {}, [
+      { method: 'increment', params: [] },
+    ])
+
+    assert.deepEqual(
+      [...calls],
+      [
+        'boot',
+        'hydrate',
+        'hydrateCount:1',
+        'booted',
+        'increment',
+        'rendering:2',
+        'rendered:true',
+        'dehydrate',
+        'dehydrateCount:2',
+      ]
+    )
+    assert.include(effects.html, 'Counter: 2')
+    assert.equal(newSnapshot.data.total, 20)
+  })
+
+  test('should not allow calling lifecycle hooks from the client', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'lifecycle'))
+
+    for (const method of ['boot', 'hydrateCount', 'dehydrate', 'rendered', 'mount']) {
+      await assert.rejects(
+        () => livewire.update(ctx, structuredClone(snapshot), {}, [{ method, params: [] }]),
+        /does not exist or is not callable/
+      )
+    }
+    assert.isFalse(Livewire.isLifecycleHook('mountain'))
+    assert.isFalse(Livewire.isLifecycleHook('updateProfile'))
+  })
+})
+
+class SupportUpdateTracker extends ComponentHook {
+  static calls: any[] = []
+  declare component: TrackedComponent
+
+  async update(property: string, _fullPath: string, value: any) {
+    if (property === 'owner') {
+      throw new Error(`Cannot update ${property}`)
+    }
+
+    SupportUpdateTracker.calls.push(['update', property, this.component.count, value])
+    return (newValue: any) => {
+      SupportUpdateTracker.calls.push(['updated', property, this.component.count, newValue])
+    }
+  }
+}
+
+class TrackedComponent extends Component {
+  count = 1
+  owner = 'me'
+
+  updatingCount(value: number) {
+    SupportUpdateTracker.calls.push(['updatingCount', this.count, value])
+  }
+
+  updatedCount(value: number) {
+    SupportUpdateTracker.calls.push(['updatedCount', this.count, value])
+  }
+
+  exception(_error: unknown, stopPropagation: () => void) {
+    stopPropagation()
+  }
+
+  async render() {
+    return Promise.resolve('<div>{{ count }}</div>')
+  }
+}
+
+class ProfileComponent extends Component {
+  first_name = 'Ada'
+
+  hydrateFirstName(value: string) {
+    SupportUpdateTracker.calls.push(['hydrateFirstName', value])
+  }
+
+  updatingFirstName(value: string) {
+    SupportUpdateTracker.calls.push(['updatingFirstName', value])
+  }
+
+  updatedFirstName(value: string) {
+    SupportUpdateTracker.calls.push(['updatedFirstName', value])
+  }
+
+  dehydrateFirstName(value: string) {
+    SupportUpdateTracker.calls.push(['dehydrateFirstName', value])
+  }
+
+  async render() {
+    return Promise.resolve('<div>{{ first_name }}</div>')
+  }
+}
+
+test.group('Component property updates', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    SupportUpdateTracker.calls = []
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportUpdateTracker]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('tracked', TrackedComponent)
+    livewire.component('profile', ProfileComponent)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'tracked'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should run feature update hooks before the value is set', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, { count: 5 }, [])
+
+    assert.deepEqual(SupportUpdateTracker.calls, [
+      ['updatingCount', 1, 5],
+      ['update', 'count', 1, 5],
+      ['updated', 'count', 5, 5],
+      ['updatedCount', 5, 5],
+    ])
+    assert.equal(newSnapshot.data.count, 5)
+  })
+
+  test('should not set the value when a feature rejects the update', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, { owner: 'someone-else' }, [])
+
+    assert.equal(newSnapshot.data.owner, 'me')
+  })
+
+  test('should call the hooks of snake_case properties', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'profile'))
+    SupportUpdateTracker.calls = []
+
+    await livewire.update(ctx, snapshot, { first_name: 'Grace' }, [])
+
+    assert.deepEqual(
+      SupportUpdateTracker.calls.filter(([name]) => name.includes('FirstName')),
+      [
+        ['hydrateFirstName', 'Ada'],
+        ['updatingFirstName', 'Grace'],
+        ['updatedFirstName', 'Grace'],
+        ['dehydrateFirstName', 'Grace'],
+      ]
+    )
+  })
+})
+
+class TransactionComponent extends Component {
+  static destroyed: Array<{ removed: boolean }> = []
+
+  fail() {
+    throw new Error('Query failed')
+  }
+
+  destroy(options: { removed: boolean }) {
+    TransactionComponent.destroyed.push(options)
+  }
+
+  async render() {
+    return Promise.resolve('<div>Transaction</div>')
+  }
+}
+
+class SupportTeardown extends ComponentHook {
+  static calls: any[] = []
+
+  async destroy(context: ComponentContext, options: { removed: boolean }) {
+    SupportTeardown.calls.push([context.component.getName(), options])
+  }
+}
+
+test.group('Component destroy', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    TransactionComponent.destroyed = []
+    SupportTeardown.calls = []
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportTeardown]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const ctx = new HttpContextFactory().create()
+    const livewire = new LivewireFactory(app).merge({ ctx, router }).create()
+    livewire.component('transaction', TransactionComponent)
+
+    const snapshot = extractSnapshot(await livewire.mount(ctx, 'transaction'))
+    return { app, ctx, livewire, snapshot }
+  }
+
+  test('should destroy components once the request is done', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(ctx, snapshot, {}, [])
+
+    assert.deepEqual(TransactionComponent.destroyed, [{ removed: false }, { removed: false }])
+    assert.deepEqual(SupportTeardown.calls, [
+      ['transaction', { removed: false }],
+      ['transaction', { removed: false }],
+    ])
+  })
+
+  test('should destroy components when the request fails', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'fail', params: [] }]),
+      'Query failed'
+    )
+    assert.lengthOf(TransactionComponent.destroyed, 2)
+  })
+
+  test('should destroy components removed from the page', async ({ assert, cleanup }) => {
+    const { app, ctx, livewire, snapshot } = await setup()
+    cleanup(() => app.terminate())
+
+    const [, effects] = await livewire.update(ctx, structuredClone(snapshot), {}, [
+      { method: '__destroy', params: [] },
+    ])
+
+    assert.isUndefined(effects.html)
+    assert.deepEqual(TransactionComponent.destroyed.at(-1), { removed: true })
+    await assert.rejects(
+      () => livewire.update(ctx, snapshot, {}, [{ method: 'destroy', params: [] }]),
+      /does not exist or is not callable/
+    )
+  })
+})
+
+class DraftEditor extends Component {
+  static destroyed: Array<[string, { removed: boolean }]> = []
+
+  @reactive()
+  title = ''
+
+  destroy(options: { removed: boolean }) {
+    DraftEditor.destroyed.push([this.getId(), options])
+  }
+
+  async render() {
+    return Promise.resolve('<span>Editing {{ title }}</span>')
+  }
+}
+
+class DraftList extends Component {
+  title = 'Draft'
+  editing = true
+
+  close() {
+    this.editing = false
+  }
+
+  async render() {
+    return Promise.resolve(`<div>
+      @if(editing)
+        @livewire('draft-editor', { title }, { key: 'editor' })
+      @end
+    </div>`)
+  }
+}
+
+test.group('Component destroy - removed children', (group) => {
+  let features: typeof Livewire.FEATURES
+
+  group.each.setup(() => {
+    DraftEditor.destroyed = []
+    features = Livewire.FEATURES
+    Livewire.FEATURES = [SupportDecorators, SupportNestingComponents, SupportReactiveProps]
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const livewire = new LivewireFactory(app).merge({ router }).create()
+    const edge = Edge.create()
+    edge.use(edgePluginLivewire(app, livewire, '1.0.0'))
+
+    livewire.component('draft-editor', DraftEditor)
+    livewire.component('draft-list', DraftList)
+
+    const request = () => {
+      const ctx = new HttpContextFactory().create()
+      Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+      return ctx
+    }
+
+    const html = await livewire.mount(request(), 'draft-list')
+    const child = extractSnapshot(html.match(/<span[^>]*>/)![0])
+    const parent = extractSnapshot(html.replace(/<span[^>]*>.*?<\/span>/g, ''))
+    DraftEditor.destroyed = []
+
+    return { app, livewire, request, parent, child }
+  }
+
+  /**
+   * Like the update route, children with reactive props come right after
+   * their parent in the same request
+   */
+  test('should destroy children the parent stopped rendering', async ({ assert, cleanup }) => {
+    const { app, livewire, request, parent, child } = await setup()
+    cleanup(() => app.terminate())
+
+    const ctx = request()
+    const [, parentEffects] = await livewire.update(ctx, parent, {}, [
+      { method: 'close', params: [] },
+    ])
+    const [, effects] = await livewire.update(ctx, child, {}, [])
+
+    assert.notInclude(parentEffects.html!, child.memo.id)
+    assert.isUndefined(effects.html)
+    assert.deepEqual(DraftEditor.destroyed, [[child.memo.id, { removed: true }]])
+  })
+
+  test('should keep children the parent rendered again', async ({ assert, cleanup }) => {
+    const { app, livewire, request, parent, child } = await setup()
+    cleanup(() => app.terminate())
+
+    const ctx = request()
+    await livewire.update(ctx, parent, { title: 'Post' }, [])
+    const [, effects] = await livewire.update(ctx, child, {}, [])
+
+    assert.include(effects.html!, 'Editing Post')
+    assert.deepEqual(DraftEditor.destroyed, [[child.memo.id, { removed: false }]])
+  })
+
+  test('should not carry removed children over to the next request', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, livewire, request, parent, child } = await setup()
+    cleanup(() => app.terminate())
+
+    await livewire.update(request(), parent, {}, [{ method: 'close', params: [] }])
+    const [, effects] = await livewire.update(request(), child, {}, [])
+
+    assert.include(effects.html!, 'Editing Draft')
+    assert.deepEqual(DraftEditor.destroyed, [[child.memo.id, { removed: false }]])
+  })
+})
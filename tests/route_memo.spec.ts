@@ -0,0 +1,207 @@
+import { test } from '@japa/runner'
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import { HttpContextFactory, RequestFactory } from '@adonisjs/core/factories/http'
+import { setupApp } from './helpers.js'
+import { Component } from '../src/component.js'
+import Livewire from '../src/livewire.js'
+import { LivewireFactory } from '../factories/livewire_factory.js'
+import { Edge } from 'edge.js'
+import { edgePluginLivewire } from '../src/plugins/edge/plugin.js'
+
+const replayed: any[] = []
+
+class RoleMiddleware {
+  async handle(ctx: HttpContext, next: NextFn, options: { role: string }) {
+    replayed.push(`role:${options.role}:${ctx.params.id}`)
+    return next()
+  }
+}
+
+/**
+ * Lets requests with an authorization header through, as an auth middleware would
+ */
+async function auth(ctx: HttpContext, next: NextFn) {
+  if (!ctx.request.header('authorization')) {
+    return ctx.response.unauthorized('Unauthorized')
+  }
+
+  Object.defineProperty(ctx, 'auth', { value: { user: { id: 1 } }, configurable: true })
+  return next()
+}
+
+class EditPost extends Component {
+  seen: any[] = []
+
+  save() {
+    this.seen = [this.ctx.params.id, (this.ctx as any).auth?.user?.id]
+  }
+
+  async render() {
+    return Promise.resolve('<div>Edit post</div>')
+  }
+}
+
+class PostPage extends Component {
+  editing = false
+
+  edit() {
+    this.editing = true
+  }
+
+  async render() {
+    return Promise.resolve(`<section>
+      @if(editing)
+        @livewire('edit-post', {}, { key: 'editor' })
+      @end
+    </section>`)
+  }
+}
+
+function extractSnapshot(html: string) {
+  const match = html.match(/wire:snapshot="([^"]*)"/)
+  return JSON.parse(match![1].replaceAll('&quot;', '"'))
+}
+
+test.group('Route memo', (group) => {
+  let features: typeof Livewire.FEATURES
+  let edge: Edge
+
+  group.each.setup(() => {
+    features = Livewire.FEATURES
+    Livewire.FEATURES = []
+    replayed.length = 0
+    edge = Edge.create()
+
+    return () => {
+      Livewire.FEATURES = features
+    }
+  })
+
+  async function setup() {
+    const { app, router } = await setupApp()
+    const middleware = router.named({ role: async () => ({ default: RoleMiddleware }) })
+
+    router
+      .get('/posts/:id/edit', () => {})
+      .as('posts.edit')
+      .use([auth, middleware.role({ role: 'editor' })])
+    router.get('/about', () => {})
+    router.commit()
+
+    const livewire = new LivewireFactory(app).merge({ router }).create()
+    livewire.component('edit-post', EditPost)
+    livewire.component('post-page', PostPage)
+
+    edge.use(edgePluginLivewire(app, livewire, '1.0.0'))
+
+    return { app, router, livewire }
+  }
+
+  function createContext(url: string, headers: Record<string, string> = {}) {
+    const method = url === '/livewire/update' ? 'POST' : 'GET'
+    const request = new RequestFactory().merge({ url, method }).create()
+    Object.assign(request.request.headers, headers)
+
+    const ctx = new HttpContextFactory().merge({ request }).create()
+    Object.defineProperty(ctx, 'view', { value: edge.createRenderer() })
+    return ctx
+  }
+
+  async function mountOnRoute(livewire: Livewire, router: any, name = 'edit-post') {
+    const ctx = createContext('/posts/7/edit', { authorization: 'token' })
+    ctx.route = router.find('posts.edit')!
+    ctx.params = { id: '7' }
+
+    return extractSnapshot(await livewire.mount(ctx, name))
+  }
+
+  test('should record the route in the memo', async ({ assert, cleanup }) => {
+    const { app, router, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = await mountOnRoute(livewire, router)
+
+    assert.equal(snapshot.memo.path, '/posts/7/edit')
+    assert.equal(snapshot.memo.method, 'GET')
+    assert.deepEqual(snapshot.memo.route, {
+      name: 'posts.edit',
+      pattern: '/posts/:id/edit',
+      domain: 'root',
+      method: 'GET',
+      params: { id: '7' },
+    })
+  })
+
+  test('should replay the route middleware with the original params', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, router, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = await mountOnRoute(livewire, router)
+    const ctx = createContext('/livewire/update', { authorization: 'token' })
+
+    const [newSnapshot] = await livewire.update(ctx, snapshot, {}, [{ method: 'save', params: [] }])
+
+    assert.deepEqual(replayed, ['role:editor:7'])
+    assert.deepEqual(newSnapshot.data.seen, ['7', 1])
+    assert.deepEqual(newSnapshot.memo.route, snapshot.memo.route)
+  })
+
+  test('should abort updates of guests on authenticated routes', async ({ assert, cleanup }) => {
+    const { app, router, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = await mountOnRoute(livewire, router)
+    const ctx = createContext('/livewire/update')
+
+    await assert.rejects(() => livewire.update(ctx, snapshot, {}, [{ method: 'save', params: [] }]))
+
+    assert.equal(ctx.response.getStatus(), 401)
+    assert.deepEqual(replayed, [])
+  })
+
+  test('should match the path of components mounted outside a route', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const snapshot = extractSnapshot(await livewire.mount(createContext('/about'), 'edit-post'))
+    const [newSnapshot] = await livewire.update(createContext('/livewire/update'), snapshot, {}, [
+      { method: 'save', params: [] },
+    ])
+
+    assert.isUndefined(snapshot.memo.route)
+    assert.equal(newSnapshot.memo.path, '/about')
+    assert.deepEqual(replayed, [])
+  })
+
+  test('should keep the route of the parent for children mounted on updates', async ({
+    assert,
+    cleanup,
+  }) => {
+    const { app, router, livewire } = await setup()
+    cleanup(() => app.terminate())
+
+    const page = await mountOnRoute(livewire, router, 'post-page')
+    const ctx = createContext('/livewire/update', { authorization: 'token' })
+    const [, effects] = await livewire.update(ctx, page, {}, [{ method: 'edit', params: [] }])
+    const child = extractSnapshot(effects.html!.match(/<div[^>]*>/)![0])
+
+    assert.equal(child.memo.name, 'edit-post')
+    assert.equal(child.memo.path, '/posts/7/edit')
+    assert.equal(child.memo.method, 'GET')
+    assert.deepEqual(child.memo.route, page.memo.route)
+
+    replayed.length = 0
+    const guest = createContext('/livewire/update')
+    await assert.rejects(() => livewire.update(guest, child, {}, [{ method: 'save', params: [] }]))
+
+    assert.equal(guest.response.getStatus(), 401)
+    assert.deepEqual(replayed, [])
+  })
+})